@@ -0,0 +1,8 @@
+import { handleAuthorize } from '@/lib/ehr/oauth';
+
+// -----------------------------------------------------------------------------
+// SMART Launch Route - kept at its original path; see /api/ehr/[provider]/oauth
+// -----------------------------------------------------------------------------
+export async function GET(req: Request) {
+  return handleAuthorize(req, 'cerner');
+}
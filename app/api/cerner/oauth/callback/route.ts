@@ -0,0 +1,8 @@
+import { handleCallback } from '@/lib/ehr/oauth';
+
+// -----------------------------------------------------------------------------
+// OAuth Callback Route - kept at the redirect URI registered with the vendor
+// -----------------------------------------------------------------------------
+export async function GET(req: Request) {
+  return handleCallback(req, 'cerner');
+}
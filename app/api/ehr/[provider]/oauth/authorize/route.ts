@@ -0,0 +1,9 @@
+import { handleAuthorize } from '@/lib/ehr/oauth';
+
+// -----------------------------------------------------------------------------
+// SMART Launch Route - any provider enabled in the registry (EHR_PROVIDERS)
+// -----------------------------------------------------------------------------
+export async function GET(req: Request, { params }: { params: Promise<{ provider: string }> }) {
+  const { provider } = await params;
+  return handleAuthorize(req, provider);
+}
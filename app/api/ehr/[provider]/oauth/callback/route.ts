@@ -0,0 +1,9 @@
+import { handleCallback } from '@/lib/ehr/oauth';
+
+// -----------------------------------------------------------------------------
+// OAuth Callback Route - any provider enabled in the registry (EHR_PROVIDERS)
+// -----------------------------------------------------------------------------
+export async function GET(req: Request, { params }: { params: Promise<{ provider: string }> }) {
+  const { provider } = await params;
+  return handleCallback(req, provider);
+}
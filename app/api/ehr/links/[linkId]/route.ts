@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { unlinkPatient } from '@/lib/ehr/patient-links';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// -----------------------------------------------------------------------------
+// Unlink Route - disconnects an EHR record and forgets its tokens
+// -----------------------------------------------------------------------------
+export async function DELETE(req: Request, { params }: { params: Promise<{ linkId: string }> }) {
+  const { linkId } = await params;
+
+  const auth = await authenticateRequest(req);
+  if (auth.response) return auth.response;
+
+  if (!UUID_PATTERN.test(linkId)) {
+    return NextResponse.json({ error: 'Link not found' }, { status: 404 });
+  }
+
+  try {
+    const removed = await unlinkPatient(auth.userId, linkId);
+    if (!removed) {
+      return NextResponse.json({ error: 'Link not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('❌ Failed to unlink patient:', error.message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
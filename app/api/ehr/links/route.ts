@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { connectPatient } from '@/lib/ehr/oauth';
+import { listPatientLinks } from '@/lib/ehr/patient-links';
+import { claimStashedTokens } from '@/lib/ehr/token-vault';
+
+// -----------------------------------------------------------------------------
+// Linked EHR Accounts Route - the signed-in user's connected patient records
+// -----------------------------------------------------------------------------
+export async function GET(req: Request) {
+  const auth = await authenticateRequest(req);
+  if (auth.response) return auth.response;
+
+  try {
+    const links = await listPatientLinks(auth.userId);
+
+    return NextResponse.json({
+      success: true,
+      links: links.map((link) => ({
+        id: link.id,
+        vendor: link.vendor,
+        patientFhirId: link.patient_fhir_id,
+        patientName: link.patient_name,
+        fhirBase: link.fhir_base,
+        linkedAt: link.linked_at,
+        updatedAt: link.updated_at,
+      })),
+    });
+  } catch (error: any) {
+    console.error('❌ Failed to list patient links:', error.message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Claims an EHR connection from a launch made before sign-in, using the one-time
+// `connection_code` the callback returned, and links it to the signed-in user.
+export async function POST(req: Request) {
+  const auth = await authenticateRequest(req);
+  if (auth.response) return auth.response;
+
+  const body = await req.json().catch(() => undefined);
+  const code = body?.connection_code;
+  if (typeof code !== 'string' || !code) {
+    return NextResponse.json({ error: 'connection_code is required' }, { status: 400 });
+  }
+
+  try {
+    const pending = await claimStashedTokens(code);
+    if (!pending) {
+      return NextResponse.json({ error: 'Invalid, expired or already used connection_code' }, { status: 400 });
+    }
+
+    const connected = await connectPatient(auth.userId, pending.connection, pending.tokens);
+    if (connected.status === 'conflict') {
+      return NextResponse.json(
+        { error: 'This patient record is already linked to another account' },
+        { status: 409 }
+      );
+    }
+    if (connected.status === 'already_linked') {
+      return NextResponse.json(
+        {
+          error: `This account is already linked to another ${pending.connection.vendor} patient record; unlink it first`,
+          linkedPatientFhirId: connected.patientFhirId,
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      vendor: pending.connection.vendor,
+      patientFhirId: pending.connection.patient_fhir_id,
+      patientName: pending.connection.patient_name,
+      syncJobId: connected.syncJobId,
+    }, { status: 201 });
+  } catch (error: any) {
+    console.error('❌ Failed to claim EHR connection:', error.message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { getSyncJob } from '@/lib/ehr/sync-jobs';
+
+// -----------------------------------------------------------------------------
+// Sync Job Status Route - polled by the app after an EHR login
+// -----------------------------------------------------------------------------
+export async function GET(req: Request, { params }: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await params;
+
+  const auth = await authenticateRequest(req);
+  if (auth.response) return auth.response;
+
+  try {
+    const job = await getSyncJob(jobId);
+    // Someone else's job is reported as missing rather than forbidden
+    if (!job || job.user_id !== auth.userId) {
+      return NextResponse.json({ error: 'Sync job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      job: {
+        id: job.id,
+        vendor: job.vendor,
+        status: job.status,
+        attempts: job.attempts,
+        maxAttempts: job.max_attempts,
+        progress: job.progress,
+        lastError: job.last_error,
+        nextAttemptAt: job.status === 'queued' ? job.run_after : null,
+        createdAt: job.created_at,
+        updatedAt: job.updated_at,
+        finishedAt: job.finished_at,
+      },
+    });
+  } catch (error: any) {
+    console.error('❌ Failed to load sync job:', error.message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
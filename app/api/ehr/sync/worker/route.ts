@@ -0,0 +1,39 @@
+import { timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { runSyncWorker } from '@/lib/ehr/sync-jobs';
+
+// -----------------------------------------------------------------------------
+// Sync Worker Route - drains queued jobs and retries; call from a cron schedule.
+// Requires `Authorization: Bearer $SYNC_WORKER_SECRET`.
+// -----------------------------------------------------------------------------
+const SYNC_WORKER_SECRET = process.env.SYNC_WORKER_SECRET;
+
+// Constant-time, so response timing doesn't reveal how much of the secret matched
+function isAuthorized(req: Request) {
+  if (!SYNC_WORKER_SECRET) return false;
+  const expected = Buffer.from(`Bearer ${SYNC_WORKER_SECRET}`);
+  const actual = Buffer.from(req.headers.get('authorization') ?? '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+async function handle(req: Request) {
+  if (!isAuthorized(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const url = new URL(req.url);
+  const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '5') || 5, 1), 25);
+
+  try {
+    const summary = await runSyncWorker({ limit });
+    console.log('✅ Sync worker run complete:', summary);
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error: any) {
+    console.error('❌ Sync worker run failed:', error.message);
+    return NextResponse.json({ error: 'Sync worker failed' }, { status: 500 });
+  }
+}
+
+// Cron schedulers (e.g. Vercel Cron) call with GET
+export const GET = handle;
+export const POST = handle;
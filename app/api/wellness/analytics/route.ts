@@ -1,5 +1,21 @@
 import { createClient } from '@supabase/supabase-js'
 import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { selectAllPages } from '@/lib/supabase'
+import { severitiesFrom } from '@/lib/wellness/anomalies'
+import { parseAnalyticsQuery, validationError } from '@/lib/wellness/schema'
+import { correlationPValue, dailySeries, laggedCorrelation, localDay } from '@/lib/wellness/statistics'
+import { buildTrendSeries } from '@/lib/wellness/trends'
+import type {
+  AnalyticsAnomaliesResponse,
+  AnalyticsCorrelationsResponse,
+  AnalyticsTrendsResponse,
+  AnomalyFlag,
+  AnomalySeverity,
+  CorrelationResult,
+  TrendBucket,
+  TrendResult
+} from '@/lib/wellness/types'
 
 const supabaseUrl = process.env.SUPABASE_URL
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
@@ -9,6 +25,10 @@ const supabase = supabaseUrl && supabaseServiceKey
   ? createClient(supabaseUrl, supabaseServiceKey)
   : null
 
+// p-value below which a correlation is flagged as significant
+const SIGNIFICANCE_LEVEL = 0.05
+const MAX_ANOMALIES = 500
+
 // =============================================
 // ANALYTICS AND TRENDS ENDPOINTS
 // =============================================
@@ -25,18 +45,17 @@ export async function GET(request: NextRequest) {
     }
 
     const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
-    const goalId = searchParams.get('goalId')
-    const dataType = searchParams.get('dataType')
-    const days = parseInt(searchParams.get('days') || '30')
-    const endpoint = searchParams.get('endpoint') || 'trends'
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'userId is required' }, 
-        { status: 400 }
-      )
-    }
+    const auth = await authenticateRequest(request, searchParams.get('userId'))
+    if (auth.response) return auth.response
+    const userId = auth.userId
+
+    const parsed = parseAnalyticsQuery(searchParams)
+    if (parsed.errors) return validationError(parsed.errors)
+
+    const goalId = parsed.value.goalId ?? null
+    const dataType = parsed.value.dataType ?? null
+    const { days, endpoint, lag, minOverlap, bucket, timezone } = parsed.value
 
     // Calculate date range
     const startDate = new Date()
@@ -45,13 +64,13 @@ export async function GET(request: NextRequest) {
     // Route to different analytics functions based on endpoint
     switch (endpoint) {
       case 'trends':
-        return await getTrends(userId, goalId, dataType, days, startDate)
+        return await getTrends(userId, goalId, dataType, days, startDate, { bucket, timezone })
       case 'correlations':
-        return await getCorrelations(userId, goalId, startDate)
+        return await getCorrelations(userId, goalId, startDate, lag, minOverlap, timezone)
       case 'summary':
         return await getSummary(userId, goalId, startDate)
-      default:
-        return await getTrends(userId, goalId, dataType, days, startDate)
+      case 'anomalies':
+        return await getAnomalies(userId, goalId, dataType, days, startDate, parsed.value.minSeverity)
     }
 
   } catch (error) {
@@ -63,14 +82,24 @@ export async function GET(request: NextRequest) {
   }
 }
 
-async function getTrends(userId: string, goalId: string | null, dataType: string | null, days: number, startDate: Date) {
+async function getTrends(
+  userId: string,
+  goalId: string | null,
+  dataType: string | null,
+  days: number,
+  startDate: Date,
+  options: { bucket: TrendBucket; timezone: string }
+) {
   // Get health data for the specified period
-  const { data: healthData, error } = await supabase!
+  const { data: healthData, error } = await selectAllPages((from, to) => supabase!
     .from('health_data')
-    .select('*')
+    .select('data_type, data, unit, date, goal_id')
     .eq('user_id', userId)
-    .gte('created_at', startDate.toISOString())
-    .order('created_at', { ascending: true })
+    .is('deleted_at', null)
+    .gte('date', startDate.toISOString())
+    .order('date', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to))
 
   if (error) {
     console.error('Error fetching health data:', error)
@@ -94,23 +123,49 @@ async function getTrends(userId: string, goalId: string | null, dataType: string
   // Calculate trends based on period
   const trends = calculateTrends(filteredData || [])
 
-  return NextResponse.json({
+  // One chart series per data type
+  const dataTypes = [...new Set((filteredData || []).map(item => item.data_type))].sort()
+  const series = dataTypes.map(type =>
+    buildTrendSeries(filteredData || [], type, { bucket: options.bucket, timeZone: options.timezone })
+  )
+
+  const response: AnalyticsTrendsResponse = {
     success: true,
     trends,
+    series,
+    bucket: options.bucket,
+    timezone: options.timezone,
     days,
     startDate: startDate.toISOString(),
     endDate: new Date().toISOString(),
     dataPoints: filteredData?.length || 0
-  })
+  }
+
+  return NextResponse.json(response)
 }
 
-async function getCorrelations(userId: string, goalId: string | null, startDate: Date) {
-  // Get health data for correlation analysis
-  const { data: healthData, error } = await supabase!
+async function getCorrelations(
+  userId: string,
+  goalId: string | null,
+  startDate: Date,
+  lag: number,
+  minOverlap: number,
+  timezone: string
+) {
+  // Get health data for correlation analysis; lagged pairs need `lag` extra days
+  // before the window for the leading metric
+  const since = new Date(startDate)
+  since.setDate(since.getDate() - lag)
+
+  const { data: healthData, error } = await selectAllPages((from, to) => supabase!
     .from('health_data')
-    .select('*')
+    .select('data_type, data, date, goal_id')
     .eq('user_id', userId)
-    .gte('created_at', startDate.toISOString())
+    .is('deleted_at', null)
+    .gte('date', since.toISOString())
+    .order('date', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to))
 
   if (error) {
     console.error('Error fetching health data:', error)
@@ -127,13 +182,18 @@ async function getCorrelations(userId: string, goalId: string | null, startDate:
   }
 
   // Calculate correlations between different health metrics
-  const correlations = calculateCorrelations(filteredData || [])
+  const { correlations, insufficientData } = calculateCorrelations(filteredData || [], lag, minOverlap, timezone, localDay(startDate, timezone))
 
-  return NextResponse.json({
+  const response: AnalyticsCorrelationsResponse = {
     success: true,
     correlations,
+    insufficientData,
+    lagDays: lag,
+    minOverlap,
     dataPoints: filteredData?.length || 0
-  })
+  }
+
+  return NextResponse.json(response)
 }
 
 async function getSummary(userId: string, goalId: string | null, startDate: Date) {
@@ -142,6 +202,7 @@ async function getSummary(userId: string, goalId: string | null, startDate: Date
     .from('health_data')
     .select('*')
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .gte('created_at', startDate.toISOString())
 
   if (error) {
@@ -168,16 +229,81 @@ async function getSummary(userId: string, goalId: string | null, startDate: Date
   })
 }
 
-function calculateTrends(data: any[]) {
+async function getAnomalies(
+  userId: string,
+  goalId: string | null,
+  dataType: string | null,
+  days: number,
+  startDate: Date,
+  minSeverity: AnomalySeverity
+) {
+  // Flags are scored when each reading is saved, so this only reads them back
+  const severities = severitiesFrom(minSeverity)
+  let query = supabase!
+    .from('health_data')
+    .select('id, data_type, data, unit, date, source, goal_id, anomaly_flags, anomaly_severity')
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .in('anomaly_severity', severities)
+    .gte('date', startDate.toISOString())
+    .order('date', { ascending: false })
+    .limit(MAX_ANOMALIES)
+
+  if (goalId) {
+    query = query.eq('goal_id', goalId)
+  }
+
+  if (dataType) {
+    query = query.eq('data_type', dataType)
+  }
+
+  const { data: healthData, error } = await query
+
+  if (error) {
+    console.error('Error fetching anomalies:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch anomalies' }, 
+      { status: 500 }
+    )
+  }
+
+  const anomalies = (healthData || []).map(item => ({
+    id: item.id,
+    dataType: item.data_type,
+    value: Number(item.data),
+    unit: item.unit,
+    date: item.date,
+    source: item.source,
+    severity: item.anomaly_severity,
+    flags: ((item.anomaly_flags || []) as AnomalyFlag[]).filter(flag => severities.includes(flag.severity))
+  }))
+
+  const response: AnalyticsAnomaliesResponse = {
+    success: true,
+    anomalies,
+    counts: {
+      info: anomalies.filter(item => item.severity === 'info').length,
+      warning: anomalies.filter(item => item.severity === 'warning').length,
+      critical: anomalies.filter(item => item.severity === 'critical').length
+    },
+    days,
+    startDate: startDate.toISOString(),
+    endDate: new Date().toISOString()
+  }
+
+  return NextResponse.json(response)
+}
+
+function calculateTrends(data: any[]): TrendResult {
   // Simple trend calculation - can be enhanced
   if (data.length === 0) return { trend: 'no_data', change: 0 }
 
-  const sortedData = data.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+  const sortedData = data.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
   const firstHalf = sortedData.slice(0, Math.floor(sortedData.length / 2))
   const secondHalf = sortedData.slice(Math.floor(sortedData.length / 2))
 
-  const firstAvg = firstHalf.reduce((sum, item) => sum + (item.value || 0), 0) / firstHalf.length
-  const secondAvg = secondHalf.reduce((sum, item) => sum + (item.value || 0), 0) / secondHalf.length
+  const firstAvg = firstHalf.reduce((sum, item) => sum + (Number(item.data) || 0), 0) / firstHalf.length
+  const secondAvg = secondHalf.reduce((sum, item) => sum + (Number(item.data) || 0), 0) / secondHalf.length
 
   const change = firstAvg > 0 ? ((secondAvg - firstAvg) / firstAvg) * 100 : 0
 
@@ -189,42 +315,63 @@ function calculateTrends(data: any[]) {
   }
 }
 
-function calculateCorrelations(data: any[]) {
-  // Simple correlation calculation - can be enhanced
-  const dataTypes = [...new Set(data.map(item => item.data_type))]
-  const correlations: any[] = []
-
+// Only the leading metric may reach back before `firstDay`; the following metric is
+// kept to the requested window
+function calculateCorrelations(data: any[], lag: number, minOverlap: number, timezone: string, firstDay: string) {
+  const dataTypes = [...new Set(data.map(item => item.data_type))].sort()
+  const series = new Map(dataTypes.map(type => [type, dailySeries(data, type, timezone)]))
+  const inWindow = new Map([...series].map(([type, daily]) => [
+    type,
+    new Map([...daily].filter(([day]) => day >= firstDay))
+  ]))
+  const correlations: CorrelationResult[] = []
+  const insufficientData: AnalyticsCorrelationsResponse['insufficientData'] = []
+
+  // Without a lag the pair is symmetric; with one, each metric gets a turn leading
+  const pairs: Array<[string, string]> = []
   for (let i = 0; i < dataTypes.length; i++) {
     for (let j = i + 1; j < dataTypes.length; j++) {
-      const type1 = dataTypes[i]
-      const type2 = dataTypes[j]
-      
-      const type1Data = data.filter(item => item.data_type === type1)
-      const type2Data = data.filter(item => item.data_type === type2)
-      
-      // Simple correlation calculation
-      const correlation = calculateSimpleCorrelation(type1Data, type2Data)
-      
-      if (Math.abs(correlation) > 0.3) { // Only include significant correlations
-        correlations.push({
-          metric1: type1,
-          metric2: type2,
-          correlation: Math.round(correlation * 100) / 100,
-          strength: Math.abs(correlation) > 0.7 ? 'strong' : 'moderate'
-        })
-      }
+      pairs.push([dataTypes[i], dataTypes[j]])
+      if (lag > 0) pairs.push([dataTypes[j], dataTypes[i]])
     }
   }
 
-  return correlations
+  for (const [metric1, metric2] of pairs) {
+    const { sampleSize, r, rho } = laggedCorrelation(series.get(metric1)!, inWindow.get(metric2)!, lag, minOverlap)
+
+    if (r === null) {
+      insufficientData.push({ metric1, metric2, sampleSize })
+      continue
+    }
+
+    const pValue = correlationPValue(r, sampleSize)
+
+    correlations.push({
+      metric1,
+      metric2,
+      lagDays: lag,
+      sampleSize,
+      pearson: { coefficient: round(r), pValue: roundOrNull(pValue) },
+      spearman: rho === null ? null : { coefficient: round(rho), pValue: roundOrNull(correlationPValue(rho, sampleSize)) },
+      correlation: round(r),
+      strength: Math.abs(r) > 0.7 ? 'strong' : Math.abs(r) > 0.3 ? 'moderate' : 'weak',
+      significant: pValue !== null && pValue < SIGNIFICANCE_LEVEL
+    })
+  }
+
+  // Strongest relationships first
+  correlations.sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation))
+
+  return { correlations, insufficientData }
+}
+
+function round(value: number, digits = 2) {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
 }
 
-function calculateSimpleCorrelation(data1: any[], data2: any[]) {
-  // Simplified correlation calculation
-  if (data1.length === 0 || data2.length === 0) return 0
-  
-  // This is a very simplified correlation - in production you'd want proper statistical correlation
-  return Math.random() * 0.8 - 0.4 // Placeholder correlation
+function roundOrNull(value: number | null) {
+  return value === null ? null : round(value, 4)
 }
 
 function calculateSummary(data: any[]) {
@@ -238,7 +385,7 @@ function calculateSummary(data: any[]) {
   }
 
   const dataTypes = [...new Set(data.map(item => item.data_type))]
-  const values = data.map(item => item.value || 0).filter(val => !isNaN(val))
+  const values = data.map(item => Number(item.data)).filter(val => !isNaN(val))
   const dates = data.map(item => new Date(item.created_at)).sort()
 
   return {
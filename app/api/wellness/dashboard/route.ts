@@ -1,5 +1,19 @@
 import { createClient } from '@supabase/supabase-js'
 import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { selectAllPages } from '@/lib/supabase'
+import { getConsistency } from '@/lib/wellness/consistency'
+import { withForecasts } from '@/lib/wellness/forecast'
+import { withProgress } from '@/lib/wellness/goals'
+import { parseDashboardQuery, validationError } from '@/lib/wellness/schema'
+import { daysBetween, localDay } from '@/lib/wellness/statistics'
+import { dailyTrend } from '@/lib/wellness/trends'
+import type {
+  DashboardConsistency,
+  GoalForecastStatus,
+  HealthGoalWithForecast,
+  HealthGoalWithProgress
+} from '@/lib/wellness/types'
 
 const supabaseUrl = process.env.SUPABASE_URL
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
@@ -7,6 +21,8 @@ const supabase = supabaseUrl && supabaseServiceKey
   ? createClient(supabaseUrl, supabaseServiceKey)
   : null
 
+const SUMMARY_DAYS = 90
+
 // =============================================
 // DASHBOARD ENDPOINTS
 // =============================================
@@ -23,25 +39,23 @@ export async function GET(request: NextRequest) {
     }
 
     const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
-    const goalId = searchParams.get('goalId')
-    const endpoint = searchParams.get('endpoint') || 'overview'
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'userId is required' }, 
-        { status: 400 }
-      )
-    }
+    const auth = await authenticateRequest(request, searchParams.get('userId'))
+    if (auth.response) return auth.response
+    const userId = auth.userId
+
+    const parsed = parseDashboardQuery(searchParams)
+    if (parsed.errors) return validationError(parsed.errors)
+
+    const goalId = parsed.value.goalId ?? null
+    const { endpoint, timezone } = parsed.value
 
     // Route to different dashboard functions based on endpoint
     switch (endpoint) {
       case 'overview':
-        return await getDashboardOverview(userId, goalId)
+        return await getDashboardOverview(userId, goalId, timezone)
       case 'summary':
-        return await getDashboardSummary(userId, goalId)
-      default:
-        return await getDashboardOverview(userId, goalId)
+        return await getDashboardSummary(userId, goalId, timezone)
     }
 
   } catch (error) {
@@ -53,7 +67,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-async function getDashboardOverview(userId: string, goalId: string | null) {
+async function getDashboardOverview(userId: string, goalId: string | null, timezone: string) {
   // Get user's health goals
   const { data: goals, error: goalsError } = await supabase!
     .from('health_goals')
@@ -77,6 +91,7 @@ async function getDashboardOverview(userId: string, goalId: string | null) {
     .from('health_data')
     .select('*')
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .gte('created_at', thirtyDaysAgo.toISOString())
     .order('created_at', { ascending: false })
     .limit(100)
@@ -95,19 +110,23 @@ async function getDashboardOverview(userId: string, goalId: string | null) {
     filteredData = healthData?.filter(item => item.goal_id === goalId) || []
   }
 
+  const goalsWithForecasts = await withForecasts(userId, await withProgress(userId, goals || [], timezone), timezone)
+  const consistency = await getConsistency(userId, goals || [], timezone)
+
   // Calculate dashboard metrics
-  const metrics = calculateDashboardMetrics(filteredData || [], goals || [])
+  const metrics = calculateDashboardMetrics(filteredData || [], goalsWithForecasts, consistency)
 
   return NextResponse.json({
     success: true,
-    goals: goals || [],
+    goals: goalsWithForecasts,
     recentData: filteredData?.slice(0, 10) || [],
     metrics,
+    consistency,
     lastUpdated: new Date().toISOString()
   })
 }
 
-async function getDashboardSummary(userId: string, goalId: string | null) {
+async function getDashboardSummary(userId: string, goalId: string | null, timezone: string) {
   // Get comprehensive dashboard summary
   const { data: goals, error: goalsError } = await supabase!
     .from('health_goals')
@@ -122,15 +141,19 @@ async function getDashboardSummary(userId: string, goalId: string | null) {
     )
   }
 
-  // Get health data for the last 90 days
-  const ninetyDaysAgo = new Date()
-  ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90)
+  // Get health data for the summary period
+  const startDate = new Date()
+  startDate.setDate(startDate.getDate() - SUMMARY_DAYS)
 
-  const { data: healthData, error: dataError } = await supabase!
+  const { data: healthData, error: dataError } = await selectAllPages((from, to) => supabase!
     .from('health_data')
     .select('*')
     .eq('user_id', userId)
-    .gte('created_at', ninetyDaysAgo.toISOString())
+    .is('deleted_at', null)
+    .gte('date', startDate.toISOString())
+    .order('date', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to))
 
   if (dataError) {
     console.error('Error fetching health data:', dataError)
@@ -146,18 +169,26 @@ async function getDashboardSummary(userId: string, goalId: string | null) {
     filteredData = healthData?.filter(item => item.goal_id === goalId) || []
   }
 
+  const activeGoals = await withForecasts(
+    userId,
+    await withProgress(userId, (goals || []).filter(goal => goal.status === 'active'), timezone),
+    timezone
+  )
+
+  const consistency = await getConsistency(userId, goals || [], timezone)
+
   // Calculate comprehensive summary
-  const summary = calculateComprehensiveSummary(filteredData || [], goals || [])
+  const summary = calculateComprehensiveSummary(filteredData || [], goals || [], activeGoals, consistency, timezone)
 
   return NextResponse.json({
     success: true,
     summary,
     dataPoints: filteredData?.length || 0,
-    period: '90 days'
+    period: `${SUMMARY_DAYS} days`
   })
 }
 
-function calculateDashboardMetrics(data: any[], goals: any[]) {
+function calculateDashboardMetrics(data: any[], goals: HealthGoalWithForecast[], consistency: DashboardConsistency) {
   const dataTypes = [...new Set(data.map(item => item.data_type))]
   const activeGoals = goals.filter(goal => goal.status === 'active')
   
@@ -166,21 +197,50 @@ function calculateDashboardMetrics(data: any[], goals: any[]) {
     dataTypes: dataTypes.length,
     activeGoals: activeGoals.length,
     lastEntry: data.length > 0 ? data[0].created_at : null,
-    completionRate: calculateCompletionRate(data, activeGoals)
+    completionRate: calculateCompletionRate(activeGoals),
+    goalForecasts: countForecasts(activeGoals),
+    currentStreak: consistency.overall.current,
+    adherence: calculateAdherence(consistency)
   }
 }
 
-function calculateCompletionRate(data: any[], goals: any[]) {
-  if (goals.length === 0) return 0
-  
-  const goalIds = goals.map(goal => goal.id)
-  const goalData = data.filter(item => goalIds.includes(item.goal_id))
-  
-  // Simple completion rate calculation
-  return Math.min(100, Math.round((goalData.length / (goals.length * 30)) * 100))
+// Average weekly adherence across goals that have a measured week
+function calculateAdherence(consistency: DashboardConsistency) {
+  const measured = consistency.goals.filter(goal => goal.adherence !== null)
+  if (measured.length === 0) return null
+
+  return Math.round(measured.reduce((sum, goal) => sum + goal.adherence!, 0) / measured.length)
 }
 
-function calculateComprehensiveSummary(data: any[], goals: any[]) {
+function countForecasts(goals: HealthGoalWithForecast[]) {
+  const counts: Record<GoalForecastStatus, number> = {
+    achieved: 0,
+    ahead: 0,
+    on_track: 0,
+    behind: 0,
+    insufficient_data: 0
+  }
+  for (const goal of goals) {
+    if (goal.forecast) counts[goal.forecast.status]++
+  }
+  return counts
+}
+
+// Average progress toward target across active goals that have one
+function calculateCompletionRate(goals: HealthGoalWithProgress[]) {
+  const measured = goals.filter(goal => goal.progress)
+  if (measured.length === 0) return 0
+
+  return Math.round(measured.reduce((sum, goal) => sum + goal.progress!.percent, 0) / measured.length)
+}
+
+function calculateComprehensiveSummary(
+  data: any[],
+  goals: any[],
+  forecastGoals: HealthGoalWithForecast[],
+  consistency: DashboardConsistency,
+  timezone: string
+) {
   const dataTypes = [...new Set(data.map(item => item.data_type))]
   const activeGoals = goals.filter(goal => goal.status === 'active')
   const completedGoals = goals.filter(goal => goal.status === 'completed')
@@ -191,7 +251,7 @@ function calculateComprehensiveSummary(data: any[], goals: any[]) {
     return {
       type,
       count: typeData.length,
-      trend: calculateSimpleTrend(typeData)
+      trend: dailyTrend(typeData, type, timezone)
     }
   })
 
@@ -202,21 +262,21 @@ function calculateComprehensiveSummary(data: any[], goals: any[]) {
     totalDataPoints: data.length,
     dataTypes: dataTypes.length,
     trends,
-    averageEntriesPerDay: Math.round((data.length / 90) * 100) / 100
+    averageEntriesPerDay: calculateEntriesPerDay(data, timezone),
+    goalForecasts: forecastGoals
+      .filter(goal => goal.forecast)
+      .map(goal => ({ goalId: goal.id, title: goal.title, ...goal.forecast! })),
+    consistency
   }
 }
 
-function calculateSimpleTrend(data: any[]) {
-  if (data.length < 2) return 'insufficient_data'
-  
-  const sortedData = data.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
-  const firstHalf = sortedData.slice(0, Math.floor(sortedData.length / 2))
-  const secondHalf = sortedData.slice(Math.floor(sortedData.length / 2))
-  
-  const firstAvg = firstHalf.reduce((sum, item) => sum + (item.value || 0), 0) / firstHalf.length
-  const secondAvg = secondHalf.reduce((sum, item) => sum + (item.value || 0), 0) / secondHalf.length
-  
-  const change = firstAvg > 0 ? ((secondAvg - firstAvg) / firstAvg) * 100 : 0
-  
-  return change > 5 ? 'increasing' : change < -5 ? 'decreasing' : 'stable'
+// Over the days since the first entry in the period, so a user who started
+// last week isn't averaged over the full period
+function calculateEntriesPerDay(data: any[], timezone: string) {
+  if (data.length === 0) return 0
+
+  const firstDay = data.map(item => localDay(item.date, timezone)).sort()[0]
+  const days = Math.min(SUMMARY_DAYS, daysBetween(firstDay, localDay(new Date(), timezone)) + 1)
+  return Math.round((data.length / Math.max(1, days)) * 100) / 100
 }
+
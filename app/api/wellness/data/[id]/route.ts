@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { supabase } from '@/lib/supabase'
+import {
+  deleteHealthDataEntry,
+  EntryMutation,
+  getEntryHistory,
+  getLiveEntry,
+  updateHealthDataEntry
+} from '@/lib/wellness/health-data'
+import { validationError } from '@/lib/wellness/schema'
+import type {
+  DeleteHealthDataResponse,
+  HealthDataEntryResponse,
+  UpdateHealthDataResponse
+} from '@/lib/wellness/types'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// =============================================
+// SINGLE HEALTH DATA ENTRY ENDPOINTS
+// =============================================
+
+// GET /api/wellness/data/:id - Get an entry with its edit history
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    if (!supabase) return notConfigured()
+
+    const auth = await authenticateRequest(request, new URL(request.url).searchParams.get('userId'))
+    if (auth.response) return auth.response
+
+    const entry = UUID_PATTERN.test(id) ? await getLiveEntry(auth.userId, id) : null
+    if (!entry) return notFound()
+
+    const response: HealthDataEntryResponse = {
+      success: true,
+      data: entry,
+      history: await getEntryHistory(auth.userId, id)
+    }
+
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('Health data entry fetch error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' }, 
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/wellness/data/:id - Correct a logged entry
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    if (!supabase) return notConfigured()
+
+    const body = await request.json().catch(() => undefined)
+
+    const auth = await authenticateRequest(request, body?.userId)
+    if (auth.response) return auth.response
+
+    if (!UUID_PATTERN.test(id)) return notFound()
+
+    const result = await updateHealthDataEntry(auth.userId, id, body)
+    if (result.status !== 'updated') return mutationError(result)
+
+    const response: UpdateHealthDataResponse = {
+      success: true,
+      data: result.record,
+      message: 'Health data updated successfully'
+    }
+
+    console.log(`✅ Updated health data entry ${id}`)
+
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('Health data update error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' }, 
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/wellness/data/:id - Soft-delete an entry
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    if (!supabase) return notConfigured()
+
+    const auth = await authenticateRequest(request, new URL(request.url).searchParams.get('userId'))
+    if (auth.response) return auth.response
+
+    if (!UUID_PATTERN.test(id)) return notFound()
+
+    const result = await deleteHealthDataEntry(auth.userId, id)
+    if (result.status !== 'deleted') return mutationError(result)
+
+    const response: DeleteHealthDataResponse = {
+      success: true,
+      id,
+      deletedAt: result.record.deleted_at!
+    }
+
+    console.log(`✅ Deleted health data entry ${id}`)
+
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('Health data delete error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' }, 
+      { status: 500 }
+    )
+  }
+}
+
+function mutationError(result: Exclude<EntryMutation, { record: unknown }>) {
+  switch (result.status) {
+    case 'invalid':
+      return validationError(result.errors)
+    case 'read_only':
+      return NextResponse.json(
+        { error: 'Entries synced from a health record cannot be edited; delete the entry instead' }, 
+        { status: 409 }
+      )
+    case 'not_found':
+      return notFound()
+  }
+}
+
+function notFound() {
+  return NextResponse.json(
+    { error: 'Health data entry not found' }, 
+    { status: 404 }
+  )
+}
+
+function notConfigured() {
+  return NextResponse.json(
+    { error: 'Supabase not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.' }, 
+    { status: 500 }
+  )
+}
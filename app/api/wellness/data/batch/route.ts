@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { supabase } from '@/lib/supabase'
+import { saveHealthDataEntries, summarizeResults, toBatchResults } from '@/lib/wellness/health-data'
+import { parseBatchRequest, validationError } from '@/lib/wellness/schema'
+import type { BatchHealthDataResponse } from '@/lib/wellness/types'
+
+// =============================================
+// BATCH HEALTH DATA ENDPOINT
+// =============================================
+
+// POST /api/wellness/data/batch - Log many entries at once. Each entry is
+// validated and saved independently; the response reports every entry's outcome.
+export async function POST(request: NextRequest) {
+  try {
+    // Check if Supabase is configured
+    if (!supabase) {
+      return NextResponse.json(
+        { error: 'Supabase not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.' }, 
+        { status: 500 }
+      )
+    }
+
+    const body = await request.json().catch(() => undefined)
+
+    const auth = await authenticateRequest(request, body?.userId)
+    if (auth.response) return auth.response
+
+    const parsed = parseBatchRequest(body)
+    if (parsed.errors) return validationError(parsed.errors)
+
+    const { entries, dryRun } = parsed.value
+    const results = await saveHealthDataEntries(auth.userId, entries, { dryRun })
+
+    const response: BatchHealthDataResponse = {
+      success: true,
+      dryRun,
+      summary: summarizeResults(results),
+      results: toBatchResults(results)
+    }
+
+    console.log(`✅ Batch health data ${dryRun ? 'preview' : 'save'}:`, JSON.stringify(response.summary))
+
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('Batch health data error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' }, 
+      { status: 500 }
+    )
+  }
+}
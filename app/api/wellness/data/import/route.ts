@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { supabase } from '@/lib/supabase'
+import { saveHealthDataEntries, summarizeResults, toBatchResults } from '@/lib/wellness/health-data'
+import { detectImportFormat, MAX_IMPORT_BYTES, parseImport } from '@/lib/wellness/import'
+import { validationError } from '@/lib/wellness/schema'
+import type { ImportFormat, ImportHealthDataResponse } from '@/lib/wellness/types'
+
+// Room for the multipart boundaries and part headers around the file
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024
+
+// =============================================
+// HEALTH DATA IMPORT ENDPOINT
+// =============================================
+
+// POST /api/wellness/data/import - Import a CSV or JSON export. Send the file as
+// multipart `file` or as the raw body; `?dryRun=true` (or a `dryRun` form field)
+// previews the per-entry results without saving.
+export async function POST(request: NextRequest) {
+  try {
+    // Check if Supabase is configured
+    if (!supabase) {
+      return NextResponse.json(
+        { error: 'Supabase not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.' }, 
+        { status: 500 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+
+    const auth = await authenticateRequest(request, searchParams.get('userId'))
+    if (auth.response) return auth.response
+
+    const contentType = request.headers.get('content-type')
+    const multipart = contentType?.includes('multipart/form-data') ?? false
+    // Declared sizes are refused before anything is read; the read itself stops at
+    // the cap for bodies that don't declare one or understate it
+    const maxBodyBytes = MAX_IMPORT_BYTES + (multipart ? MULTIPART_OVERHEAD_BYTES : 0)
+    const declaredBytes = Number(request.headers.get('content-length'))
+    const body = declaredBytes > maxBodyBytes ? null : await readBody(request, maxBodyBytes)
+    if (!body) return tooLarge()
+
+    let text: string
+    let format: ImportFormat | null
+    let dryRun = searchParams.get('dryRun') === 'true'
+
+    if (multipart) {
+      let form: FormData
+      try {
+        form = await new Response(body, { headers: { 'content-type': contentType! } }).formData()
+      } catch {
+        return validationError([{ field: 'file', message: 'must be sent as a well-formed multipart/form-data body' }])
+      }
+      const file = form.get('file')
+      if (!(file instanceof File)) {
+        return validationError([{ field: 'file', message: 'is required' }])
+      }
+      if (file.size > MAX_IMPORT_BYTES) return tooLarge()
+      text = await file.text()
+      format = detectImportFormat(file.type, file.name)
+      dryRun = dryRun || form.get('dryRun') === 'true'
+    } else {
+      text = new TextDecoder().decode(body)
+      format = detectImportFormat(contentType)
+    }
+
+    if (!format) {
+      return validationError([{ field: 'file', message: 'must be a .csv or .json file' }])
+    }
+
+    const parsed = parseImport(text, format)
+    if (parsed.errors) return validationError(parsed.errors)
+
+    const { entries, lines } = parsed.value
+    const results = toBatchResults(await saveHealthDataEntries(auth.userId, entries, { dryRun }))
+    if (lines) {
+      results.forEach(result => { result.line = lines[result.index] })
+    }
+
+    const response: ImportHealthDataResponse = {
+      success: true,
+      format,
+      dryRun,
+      summary: summarizeResults(results),
+      results
+    }
+
+    console.log(`✅ ${format.toUpperCase()} import ${dryRun ? 'preview' : 'saved'}:`, JSON.stringify(response.summary))
+
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('Health data import error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' }, 
+      { status: 500 }
+    )
+  }
+}
+
+// Reads the body up to maxBytes; null once it goes past them
+async function readBody(request: NextRequest, maxBytes: number): Promise<Uint8Array | null> {
+  if (!request.body) return new Uint8Array()
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(chunk.value)
+  }
+  return Buffer.concat(chunks)
+}
+
+function tooLarge() {
+  return validationError([{ field: 'file', message: `must be at most ${MAX_IMPORT_BYTES / (1024 * 1024)} MB` }], 413)
+}
@@ -1,5 +1,10 @@
 import { createClient } from '@supabase/supabase-js'
 import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { decodeCursor, encodeCursor } from '@/lib/wellness/cursor'
+import { saveHealthDataEntries } from '@/lib/wellness/health-data'
+import { parseHealthDataQuery, validationError } from '@/lib/wellness/schema'
+import type { HealthDataListResponse, HealthDataRecord, LogHealthDataResponse } from '@/lib/wellness/types'
 
 const supabaseUrl = process.env.SUPABASE_URL
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
@@ -7,6 +12,8 @@ const supabase = supabaseUrl && supabaseServiceKey
   ? createClient(supabaseUrl, supabaseServiceKey)
   : null
 
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
 // =============================================
 // HEALTH DATA COLLECTION ENDPOINTS
 // =============================================
@@ -22,48 +29,41 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const body = await request.json()
+    const body = await request.json().catch(() => undefined)
     console.log('📥 Received health data request:', JSON.stringify(body, null, 2))
-    
-    const { userId, dataType, value, unit, notes, goalId, timestamp } = body
 
-    if (!userId || !dataType || value === undefined) {
+    const auth = await authenticateRequest(request, body?.userId)
+    if (auth.response) return auth.response
+    const userId = auth.userId
+
+    const [result] = await saveHealthDataEntries(userId, [body])
+
+    if (result.status === 'invalid') {
+      return validationError(result.errors!)
+    }
+
+    if (result.status === 'conflict') {
       return NextResponse.json(
-        { error: 'userId, dataType, and value are required' }, 
-        { status: 400 }
+        { error: 'Idempotency key conflict', fields: result.errors },
+        { status: 409 }
       )
     }
 
-    // Insert health data
-    const { data, error } = await supabase
-      .from('health_data')
-      .insert({
-        user_id: userId,
-        data_type: dataType,
-        data: value,  // Map 'value' to 'data' column
-        unit: unit || null,
-        notes: notes || null,
-        goal_id: goalId || null,
-        date: timestamp || new Date().toISOString(),
-        source: 'manual',
-        tags: [],
-        is_private: false
-      })
-      .select()
-
-    if (error) {
-      console.error('❌ Database error:', JSON.stringify(error, null, 2))
-      console.error('❌ Error details:', error.message, error.details, error.hint)
+    if (result.status === 'failed') {
+      console.error('❌ Database error:', result.errors)
       return NextResponse.json(
-        { error: 'Failed to save health data', details: error.message }, 
+        { error: 'Failed to save health data', details: result.errors?.[0]?.message }, 
         { status: 500 }
       )
     }
 
-    const response = {
+    const response: LogHealthDataResponse = {
       success: true,
-      data: data,  // Return array as expected by frontend
-      message: 'Health data saved successfully'
+      data: result.record ? [result.record] : [],  // Return array as expected by frontend
+      // A retry with an idempotencyKey that was already saved returns the original row
+      message: result.status === 'duplicate' ? 'Health data already saved' : 'Health data saved successfully',
+      // Out-of-range or unusual-for-this-user readings are still saved, just flagged
+      anomalies: result.record?.anomaly_flags ?? []
     }
     
     console.log('✅ Successfully saved health data:', JSON.stringify(response, null, 2))
@@ -91,37 +91,59 @@ export async function GET(request: NextRequest) {
     }
 
     const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
-    const goalId = searchParams.get('goalId')
-    const dataType = searchParams.get('dataType')
-    const limit = parseInt(searchParams.get('limit') || '100')
-    const days = parseInt(searchParams.get('days') || '30')
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'userId is required' }, 
-        { status: 400 }
-      )
-    }
+    const auth = await authenticateRequest(request, searchParams.get('userId'))
+    if (auth.response) return auth.response
+    const userId = auth.userId
+
+    const parsed = parseHealthDataQuery(searchParams)
+    if (parsed.errors) return validationError(parsed.errors)
 
-    // Calculate date range
-    const startDate = new Date()
-    startDate.setDate(startDate.getDate() - days)
+    const { goalId, dataTypes, sources, from, to, days, sort, cursor, limit } = parsed.value
+    const ascending = sort === 'date_asc'
 
+    // Order by measurement date with id as the tie-breaker so pages never overlap
     let query = supabase
       .from('health_data')
       .select('*')
       .eq('user_id', userId)
-      .gte('created_at', startDate.toISOString())
-      .order('created_at', { ascending: false })
-      .limit(limit)
+      .is('deleted_at', null)
+      .order('date', { ascending })
+      .order('id', { ascending })
+      .limit(limit + 1)
+
+    if (days) {
+      const startDate = new Date()
+      startDate.setDate(startDate.getDate() - days)
+      query = query.gte('date', startDate.toISOString())
+    }
+
+    if (from) {
+      query = query.gte('date', from)
+    }
+
+    if (to) {
+      // A bare date includes the whole day
+      query = DATE_ONLY.test(to) ? query.lt('date', nextDay(to)) : query.lte('date', to)
+    }
+
+    if (cursor) {
+      const { date, id } = decodeCursor(cursor)!
+      const op = ascending ? 'gt' : 'lt'
+      query = query.or(`date.${op}."${date}",and(date.eq."${date}",id.${op}.${id})`)
+    }
 
     if (goalId) {
       query = query.eq('goal_id', goalId)
     }
 
-    if (dataType) {
-      query = query.eq('data_type', dataType)
+    if (dataTypes.length > 0) {
+      query = query.in('data_type', dataTypes)
+    }
+
+    // 'manual', or an EHR vendor ('epic', 'cerner') for synced readings
+    if (sources.length > 0) {
+      query = query.in('source', sources)
     }
 
     const { data, error } = await query
@@ -134,12 +156,23 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    return NextResponse.json({
+    // One extra row was requested to tell whether another page exists
+    const rows = (data || []) as HealthDataRecord[]
+    const page = rows.slice(0, limit)
+    const last = page[page.length - 1]
+    const nextCursor = rows.length > limit && last
+      ? encodeCursor({ date: last.date, id: last.id, sort })
+      : null
+
+    const response: HealthDataListResponse = {
       success: true,
-      data: data || [],
-      count: data?.length || 0,
-      period: `${days} days`
-    })
+      data: page,
+      count: page.length,
+      period: days ? `${days} days` : `${from ?? 'beginning'} to ${to ?? 'now'}`,
+      nextCursor
+    }
+
+    return NextResponse.json(response)
 
   } catch (error) {
     console.error('Health data fetch error:', error)
@@ -149,3 +182,9 @@ export async function GET(request: NextRequest) {
     )
   }
 }
+
+function nextDay(date: string) {
+  const day = new Date(`${date}T00:00:00Z`)
+  day.setUTCDate(day.getUTCDate() + 1)
+  return day.toISOString()
+}
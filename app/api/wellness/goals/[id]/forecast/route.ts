@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { supabase } from '@/lib/supabase'
+import { forecastGoal, loadDailyHistory } from '@/lib/wellness/forecast'
+import { getGoalRecord, withProgress } from '@/lib/wellness/goals'
+import { parseGoalForecastQuery, validationError } from '@/lib/wellness/schema'
+import { localDay } from '@/lib/wellness/statistics'
+import type { GoalForecastResponse } from '@/lib/wellness/types'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// =============================================
+// GOAL FORECAST ENDPOINT
+// =============================================
+
+// GET /api/wellness/goals/:id/forecast - Projected completion date and on-track status,
+// with the daily values behind it for charting
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    if (!supabase) {
+      return NextResponse.json(
+        { error: 'Supabase not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.' },
+        { status: 500 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+
+    const auth = await authenticateRequest(request, searchParams.get('userId'))
+    if (auth.response) return auth.response
+
+    const parsed = parseGoalForecastQuery(searchParams)
+    if (parsed.errors) return validationError(parsed.errors)
+    const { timezone } = parsed.value
+
+    const goal = UUID_PATTERN.test(id) ? await getGoalRecord(auth.userId, id) : null
+    if (!goal) {
+      return NextResponse.json(
+        { error: 'Health goal not found' },
+        { status: 404 }
+      )
+    }
+
+    // Goals created before targets existed have nothing to forecast toward
+    if (!goal.data_type || goal.target_value === null) {
+      return NextResponse.json(
+        { error: 'Health goal has no target to forecast' },
+        { status: 409 }
+      )
+    }
+
+    const today = localDay(new Date(), timezone)
+    const [withGoalProgress] = await withProgress(auth.userId, [goal], timezone)
+    const daily = (await loadDailyHistory(auth.userId, [goal.data_type], today, timezone)).get(goal.data_type) ?? []
+
+    const response: GoalForecastResponse = {
+      success: true,
+      goal: { ...withGoalProgress, forecast: forecastGoal(withGoalProgress, daily, today, timezone) },
+      history: daily.map(([date, value]) => ({ date, value: Math.round(value * 100) / 100 }))
+    }
+
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('Goal forecast error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { supabase } from '@/lib/supabase'
+import { getGoalRecord, updateGoal, withProgress } from '@/lib/wellness/goals'
+import { parseGoalQuery, validationError } from '@/lib/wellness/schema'
+import type { GoalResponse } from '@/lib/wellness/types'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// =============================================
+// SINGLE HEALTH GOAL ENDPOINTS
+// =============================================
+
+// GET /api/wellness/goals/:id - Get a goal with its progress
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    if (!supabase) return notConfigured()
+
+    const { searchParams } = new URL(request.url)
+
+    const auth = await authenticateRequest(request, searchParams.get('userId'))
+    if (auth.response) return auth.response
+
+    const query = parseGoalQuery(searchParams)
+    if (query.errors) return validationError(query.errors)
+
+    const goal = UUID_PATTERN.test(id) ? await getGoalRecord(auth.userId, id) : null
+    if (!goal) return notFound()
+
+    const [withGoalProgress] = await withProgress(auth.userId, [goal], query.value.timezone)
+    const response: GoalResponse = { success: true, goal: withGoalProgress }
+
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('Goal fetch error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' }, 
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/wellness/goals/:id - Edit a goal, or pause/resume/complete/archive it via `status`
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    if (!supabase) return notConfigured()
+
+    const body = await request.json().catch(() => undefined)
+
+    const auth = await authenticateRequest(request, body?.userId)
+    if (auth.response) return auth.response
+
+    const query = parseGoalQuery(new URL(request.url).searchParams)
+    if (query.errors) return validationError(query.errors)
+
+    if (!UUID_PATTERN.test(id)) return notFound()
+
+    const result = await updateGoal(auth.userId, id, body)
+    if (result.status === 'invalid') return validationError(result.errors)
+    if (result.status === 'not_found') return notFound()
+
+    const [withGoalProgress] = await withProgress(auth.userId, [result.goal], query.value.timezone)
+    const response: GoalResponse = {
+      success: true,
+      goal: withGoalProgress,
+      message: 'Health goal updated successfully'
+    }
+
+    console.log(`✅ Updated health goal ${id}`)
+
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('Goal update error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' }, 
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/wellness/goals/:id - Archive a goal. Its logged data is kept.
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    if (!supabase) return notConfigured()
+
+    const { searchParams } = new URL(request.url)
+
+    const auth = await authenticateRequest(request, searchParams.get('userId'))
+    if (auth.response) return auth.response
+
+    const query = parseGoalQuery(searchParams)
+    if (query.errors) return validationError(query.errors)
+
+    if (!UUID_PATTERN.test(id)) return notFound()
+
+    const result = await updateGoal(auth.userId, id, { status: 'archived' })
+    if (result.status !== 'updated') return notFound()
+
+    const [withGoalProgress] = await withProgress(auth.userId, [result.goal], query.value.timezone)
+    const response: GoalResponse = {
+      success: true,
+      goal: withGoalProgress,
+      message: 'Health goal archived'
+    }
+
+    console.log(`✅ Archived health goal ${id}`)
+
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('Goal archive error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' }, 
+      { status: 500 }
+    )
+  }
+}
+
+function notFound() {
+  return NextResponse.json(
+    { error: 'Health goal not found' }, 
+    { status: 404 }
+  )
+}
+
+function notConfigured() {
+  return NextResponse.json(
+    { error: 'Supabase not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.' }, 
+    { status: 500 }
+  )
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { supabase } from '@/lib/supabase'
+import { createGoal, listGoals, withProgress } from '@/lib/wellness/goals'
+import { parseCreateGoal, parseGoalQuery, parseGoalsQuery, validationError } from '@/lib/wellness/schema'
+import type { GoalListResponse, GoalResponse } from '@/lib/wellness/types'
+
+// =============================================
+// HEALTH GOALS ENDPOINTS
+// =============================================
+
+// GET /api/wellness/goals - List goals with progress (archived only via ?status=archived)
+export async function GET(request: NextRequest) {
+  try {
+    // Check if Supabase is configured
+    if (!supabase) {
+      return NextResponse.json(
+        { error: 'Supabase not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.' }, 
+        { status: 500 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+
+    const auth = await authenticateRequest(request, searchParams.get('userId'))
+    if (auth.response) return auth.response
+
+    const parsed = parseGoalsQuery(searchParams)
+    if (parsed.errors) return validationError(parsed.errors)
+
+    const { status, timezone } = parsed.value
+    const goals = await withProgress(auth.userId, await listGoals(auth.userId, status), timezone)
+
+    const response: GoalListResponse = {
+      success: true,
+      goals,
+      count: goals.length
+    }
+
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('Goals fetch error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' }, 
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/wellness/goals - Create a goal (?timezone= sets the day its default baseline comes from)
+export async function POST(request: NextRequest) {
+  try {
+    // Check if Supabase is configured
+    if (!supabase) {
+      return NextResponse.json(
+        { error: 'Supabase not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.' }, 
+        { status: 500 }
+      )
+    }
+
+    const body = await request.json().catch(() => undefined)
+
+    const auth = await authenticateRequest(request, body?.userId)
+    if (auth.response) return auth.response
+
+    const parsed = parseCreateGoal(body)
+    if (parsed.errors) return validationError(parsed.errors)
+
+    const query = parseGoalQuery(new URL(request.url).searchParams)
+    if (query.errors) return validationError(query.errors)
+    const { timezone } = query.value
+
+    const goal = await createGoal(auth.userId, parsed.value, timezone)
+    const [withGoalProgress] = await withProgress(auth.userId, [goal], timezone)
+
+    const response: GoalResponse = {
+      success: true,
+      goal: withGoalProgress,
+      message: 'Health goal created successfully'
+    }
+
+    console.log(`✅ Created health goal ${goal.id} (${goal.data_type})`)
+
+    return NextResponse.json(response, { status: 201 })
+
+  } catch (error) {
+    console.error('Goal creation error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' }, 
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,9 @@
 import { createClient } from '@supabase/supabase-js'
 import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
+import { authenticateRequest } from '@/lib/auth'
+import { generateAIInsights, generateRecommendations } from '@/lib/wellness/insights'
+import { parseGenerateInsights, parseInsightsQuery, validationError } from '@/lib/wellness/schema'
+import type { InsightsResponse, RecommendationsResponse } from '@/lib/wellness/types'
 
 const supabaseUrl = process.env.SUPABASE_URL
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
@@ -8,11 +11,6 @@ const supabase = supabaseUrl && supabaseServiceKey
   ? createClient(supabaseUrl, supabaseServiceKey)
   : null
 
-// Initialize OpenAI
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-})
-
 // =============================================
 // AI INSIGHTS ENDPOINTS
 // =============================================
@@ -29,17 +27,16 @@ export async function GET(request: NextRequest) {
     }
 
     const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
-    const goalId = searchParams.get('goalId')
-    const endpoint = searchParams.get('endpoint') || 'generate'
-    const days = parseInt(searchParams.get('days') || '7')
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'userId is required' }, 
-        { status: 400 }
-      )
-    }
+    const auth = await authenticateRequest(request, searchParams.get('userId'))
+    if (auth.response) return auth.response
+    const userId = auth.userId
+
+    const parsed = parseInsightsQuery(searchParams)
+    if (parsed.errors) return validationError(parsed.errors)
+
+    const goalId = parsed.value.goalId ?? null
+    const { days, endpoint } = parsed.value
 
     // Route to different insights functions based on endpoint
     switch (endpoint) {
@@ -47,8 +44,6 @@ export async function GET(request: NextRequest) {
         return await generateInsights(userId, goalId, days)
       case 'recommendations':
         return await getRecommendations(userId, goalId, days)
-      default:
-        return await generateInsights(userId, goalId, days)
     }
 
   } catch (error) {
@@ -71,41 +66,19 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const body = await request.json()
-    const { userId, goalId, days = 7 } = body
+    const body = await request.json().catch(() => undefined)
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'userId is required' }, 
-        { status: 400 }
-      )
-    }
+    const auth = await authenticateRequest(request, body?.userId)
+    if (auth.response) return auth.response
+    const userId = auth.userId
 
-    const startDate = new Date()
-    startDate.setDate(startDate.getDate() - parseInt(days))
+    const parsed = parseGenerateInsights(body)
+    if (parsed.errors) return validationError(parsed.errors)
 
-    // Get health data and goal information
-    const [healthData, goal] = await Promise.all([
-      getHealthData(userId, goalId, startDate),
-      getGoal(userId, goalId)
-    ])
+    const goalId = parsed.value.goalId ?? null
+    const { days } = parsed.value
 
-    if (goalId && !goal) {
-      return NextResponse.json(
-        { error: 'Health goal not found' }, 
-        { status: 404 }
-      )
-    }
-
-    // Generate AI insights
-    const insights = await generateAIInsights(healthData, goal, parseInt(days))
-
-    return NextResponse.json({
-      success: true,
-      insights,
-      dataPoints: healthData.length,
-      period: `${days} days`
-    })
+    return await generateInsights(userId, goalId, days)
 
   } catch (error) {
     console.error('Insights generation error:', error)
@@ -133,15 +106,19 @@ async function generateInsights(userId: string, goalId: string | null, days: num
     )
   }
 
-  // Generate AI insights
+  // Generate insights with the configured provider; the client is told when it got the generic fallback instead
   const insights = await generateAIInsights(healthData, goal, days)
 
-  return NextResponse.json({
+  const response: InsightsResponse = {
     success: true,
-    insights,
+    insights: insights.value,
+    source: insights.source,
+    model: insights.model,
     dataPoints: healthData.length,
     period: `${days} days`
-  })
+  }
+
+  return NextResponse.json(response)
 }
 
 async function getRecommendations(userId: string, goalId: string | null, days: number) {
@@ -154,15 +131,26 @@ async function getRecommendations(userId: string, goalId: string | null, days: n
     getGoal(userId, goalId)
   ])
 
+  if (goalId && !goal) {
+    return NextResponse.json(
+      { error: 'Health goal not found' }, 
+      { status: 404 }
+    )
+  }
+
   // Generate personalized recommendations
   const recommendations = await generateRecommendations(healthData, goal, days)
 
-  return NextResponse.json({
+  const response: RecommendationsResponse = {
     success: true,
-    recommendations,
+    recommendations: recommendations.value,
+    source: recommendations.source,
+    model: recommendations.model,
     dataPoints: healthData.length,
     period: `${days} days`
-  })
+  }
+
+  return NextResponse.json(response)
 }
 
 async function getHealthData(userId: string, goalId: string | null, startDate: Date) {
@@ -170,8 +158,9 @@ async function getHealthData(userId: string, goalId: string | null, startDate: D
     .from('health_data')
     .select('*')
     .eq('user_id', userId)
-    .gte('created_at', startDate.toISOString())
-    .order('created_at', { ascending: false })
+    .is('deleted_at', null)
+    .gte('date', startDate.toISOString())
+    .order('date', { ascending: false })
 
   if (goalId) {
     query = query.eq('goal_id', goalId)
@@ -204,148 +193,3 @@ async function getGoal(userId: string, goalId: string | null) {
 
   return data
 }
-
-async function generateAIInsights(healthData: any[], goal: any, days: number) {
-  try {
-    // Prepare data summary for AI
-    const dataSummary = prepareDataSummary(healthData, goal)
-    
-    const prompt = `Based on the following health data from the last ${days} days, provide personalized insights and recommendations:
-
-Health Data Summary:
-${JSON.stringify(dataSummary, null, 2)}
-
-Goal: ${goal ? goal.title : 'General wellness'}
-
-Please provide:
-1. Key patterns and trends observed
-2. Areas of improvement
-3. Positive progress indicators
-4. Specific actionable recommendations
-5. Potential correlations between different health metrics
-
-Format the response as a structured JSON object with sections for patterns, improvements, progress, and recommendations.`
-
-    const completion = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo",
-      messages: [
-        {
-          role: "system",
-          content: "You are a health and wellness AI assistant. Provide personalized, actionable insights based on health data. Always respond with valid JSON."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      max_tokens: 1000,
-      temperature: 0.7
-    })
-
-    const response = completion.choices[0]?.message?.content || '{}'
-    return JSON.parse(response)
-
-  } catch (error) {
-    console.error('OpenAI API error:', error)
-    
-    // Fallback insights if AI fails
-    return {
-      patterns: ["Data collection is active", "Regular monitoring in progress"],
-      improvements: ["Continue consistent data logging", "Consider adding more data types"],
-      progress: ["Successfully tracking health metrics", "Building health data history"],
-      recommendations: [
-        "Maintain current data collection routine",
-        "Consider setting specific health goals",
-        "Review data weekly for patterns"
-      ]
-    }
-  }
-}
-
-async function generateRecommendations(healthData: any[], goal: any, days: number) {
-  try {
-    const dataSummary = prepareDataSummary(healthData, goal)
-    
-    const prompt = `Based on this health data from the last ${days} days, provide 3-5 specific, actionable recommendations:
-
-${JSON.stringify(dataSummary, null, 2)}
-
-Goal: ${goal ? goal.title : 'General wellness'}
-
-Provide recommendations that are:
-- Specific and actionable
-- Based on the actual data patterns
-- Realistic and achievable
-- Focused on the user's goal
-
-Format as a JSON array of recommendation objects with title, description, and priority.`
-
-    const completion = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo",
-      messages: [
-        {
-          role: "system",
-          content: "You are a health coach AI. Provide specific, actionable recommendations based on health data. Always respond with valid JSON."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      max_tokens: 800,
-      temperature: 0.7
-    })
-
-    const response = completion.choices[0]?.message?.content || '[]'
-    return JSON.parse(response)
-
-  } catch (error) {
-    console.error('OpenAI API error:', error)
-    
-    // Fallback recommendations
-    return [
-      {
-        title: "Continue Data Collection",
-        description: "Keep logging your health data consistently to build better insights",
-        priority: "high"
-      },
-      {
-        title: "Set Specific Goals",
-        description: "Define clear, measurable health goals to track progress",
-        priority: "medium"
-      },
-      {
-        title: "Review Weekly Patterns",
-        description: "Check your data weekly to identify trends and make adjustments",
-        priority: "medium"
-      }
-    ]
-  }
-}
-
-function prepareDataSummary(healthData: any[], goal: any) {
-  const dataTypes = [...new Set(healthData.map(item => item.data_type))]
-  const summary: any = {
-    totalEntries: healthData.length,
-    dataTypes: dataTypes.length,
-    goalTitle: goal ? goal.title : 'General wellness',
-    dateRange: {
-      start: healthData.length > 0 ? healthData[healthData.length - 1].created_at : null,
-      end: healthData.length > 0 ? healthData[0].created_at : null
-    }
-  }
-
-  // Add summary for each data type
-  dataTypes.forEach(type => {
-    const typeData = healthData.filter(item => item.data_type === type)
-    const values = typeData.map(item => item.value).filter(val => val !== null && val !== undefined)
-    
-    summary[type] = {
-      count: typeData.length,
-      average: values.length > 0 ? values.reduce((sum, val) => sum + val, 0) / values.length : 0,
-      latest: typeData.length > 0 ? typeData[0].value : null
-    }
-  })
-
-  return summary
-}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+
+// =============================================
+// REQUEST AUTHENTICATION
+// =============================================
+
+// Callers send their Supabase session token as `Authorization: Bearer <jwt>`.
+// The user id always comes from the verified token; a `userId` the client also
+// sends is only accepted when it matches, so one user can't read another's data.
+export type AuthResult =
+  | { userId: string; response?: undefined }
+  | { userId?: undefined; response: NextResponse }
+
+export async function authenticateRequest(
+  request: Request,
+  claimedUserId?: string | null
+): Promise<AuthResult> {
+  const userId = await verifyBearerToken(request)
+  if (typeof userId !== 'string') {
+    return { response: userId ?? unauthorized('Authentication required') }
+  }
+
+  if (claimedUserId && claimedUserId !== userId) {
+    console.warn(`⚠️ Authenticated user ${userId} attempted to act as ${claimedUserId}`)
+    return {
+      response: NextResponse.json(
+        { error: 'userId does not match the authenticated user' },
+        { status: 403 }
+      )
+    }
+  }
+
+  return { userId }
+}
+
+// For routes that work anonymously but attach the user when a token is present
+// (e.g. starting an EHR launch from a browser redirect). A bad token is still rejected.
+export async function optionalAuthentication(
+  request: Request,
+  claimedUserId?: string | null
+): Promise<AuthResult | { userId: null; response?: undefined }> {
+  if (!request.headers.get('authorization')) {
+    if (claimedUserId) {
+      return { response: unauthorized('Authentication required to link a userId') }
+    }
+    return { userId: null }
+  }
+  return authenticateRequest(request, claimedUserId)
+}
+
+// Returns the user id, null when no token was sent, or an error response
+async function verifyBearerToken(request: Request): Promise<string | null | NextResponse> {
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'Supabase not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.' },
+      { status: 500 }
+    )
+  }
+
+  const token = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]
+  if (!token) return null
+
+  const { data, error } = await supabase.auth.getUser(token)
+  if (error || !data.user) {
+    return unauthorized('Invalid or expired session')
+  }
+
+  return data.user.id
+}
+
+function unauthorized(message: string) {
+  return NextResponse.json({ error: message }, { status: 401 })
+}
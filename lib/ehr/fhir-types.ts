@@ -0,0 +1,169 @@
+// -----------------------------------------------------------------------------
+// FHIR R4 types
+//
+// Only the elements our normalizers read; everything else stays in resource_data.
+// -----------------------------------------------------------------------------
+export interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+export interface Quantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+export interface Reference {
+  reference?: string;
+  display?: string;
+}
+
+export interface Period {
+  start?: string;
+  end?: string;
+}
+
+export interface Range {
+  low?: Quantity;
+  high?: Quantity;
+}
+
+export interface ReferenceRange {
+  low?: Quantity;
+  high?: Quantity;
+  text?: string;
+}
+
+export interface Dosage {
+  text?: string;
+  route?: CodeableConcept;
+  timing?: {
+    repeat?: { frequency?: number; period?: number; periodUnit?: string };
+    code?: CodeableConcept;
+  };
+  doseAndRate?: Array<{ doseQuantity?: Quantity; doseRange?: Range }>;
+  asNeededBoolean?: boolean;
+}
+
+interface DomainResource {
+  resourceType: string;
+  id?: string;
+  status?: string;
+  meta?: { lastUpdated?: string };
+}
+
+export interface Observation extends DomainResource {
+  resourceType: 'Observation';
+  category?: CodeableConcept[];
+  code?: CodeableConcept;
+  effectiveDateTime?: string;
+  effectivePeriod?: Period;
+  effectiveInstant?: string;
+  issued?: string;
+  valueQuantity?: Quantity;
+  valueCodeableConcept?: CodeableConcept;
+  valueString?: string;
+  valueBoolean?: boolean;
+  valueInteger?: number;
+  interpretation?: CodeableConcept[];
+  referenceRange?: ReferenceRange[];
+  component?: Array<{ code?: CodeableConcept; valueQuantity?: Quantity; referenceRange?: ReferenceRange[] }>;
+  hasMember?: Reference[];
+  encounter?: Reference;
+}
+
+export interface MedicationRequest extends DomainResource {
+  resourceType: 'MedicationRequest';
+  intent?: string;
+  medicationCodeableConcept?: CodeableConcept;
+  medicationReference?: Reference;
+  authoredOn?: string;
+  dosageInstruction?: Dosage[];
+  encounter?: Reference;
+}
+
+export interface MedicationStatement extends DomainResource {
+  resourceType: 'MedicationStatement';
+  medicationCodeableConcept?: CodeableConcept;
+  medicationReference?: Reference;
+  effectiveDateTime?: string;
+  effectivePeriod?: Period;
+  dosage?: Dosage[];
+  context?: Reference;
+}
+
+export interface Medication extends DomainResource {
+  resourceType: 'Medication';
+  code?: CodeableConcept;
+  form?: CodeableConcept;
+}
+
+export interface Condition extends DomainResource {
+  resourceType: 'Condition';
+  clinicalStatus?: CodeableConcept;
+  verificationStatus?: CodeableConcept;
+  category?: CodeableConcept[];
+  code?: CodeableConcept;
+  onsetDateTime?: string;
+  onsetPeriod?: Period;
+  abatementDateTime?: string;
+  recordedDate?: string;
+  encounter?: Reference;
+}
+
+export interface DiagnosticReport extends DomainResource {
+  resourceType: 'DiagnosticReport';
+  category?: CodeableConcept[];
+  code?: CodeableConcept;
+  effectiveDateTime?: string;
+  effectivePeriod?: Period;
+  issued?: string;
+  result?: Reference[];
+  encounter?: Reference;
+}
+
+export interface Procedure extends DomainResource {
+  resourceType: 'Procedure';
+  code?: CodeableConcept;
+  performedDateTime?: string;
+  performedPeriod?: Period;
+  encounter?: Reference;
+}
+
+export interface Goal extends DomainResource {
+  resourceType: 'Goal';
+  lifecycleStatus?: string;
+  description?: CodeableConcept;
+  startDate?: string;
+  target?: Array<{ measure?: CodeableConcept; dueDate?: string; detailQuantity?: Quantity }>;
+}
+
+export interface CarePlan extends DomainResource {
+  resourceType: 'CarePlan';
+  intent?: string;
+  title?: string;
+  category?: CodeableConcept[];
+  period?: Period;
+}
+
+export interface Immunization extends DomainResource {
+  resourceType: 'Immunization';
+  vaccineCode?: CodeableConcept;
+  occurrenceDateTime?: string;
+  encounter?: Reference;
+}
+
+export interface Encounter extends DomainResource {
+  resourceType: 'Encounter';
+  class?: Coding;
+  type?: CodeableConcept[];
+  period?: Period;
+}
@@ -0,0 +1,348 @@
+import { requireSupabase, selectAllPages } from '@/lib/supabase';
+import { anomalyColumns, scoreReadings } from '@/lib/wellness/anomalies';
+import { getProjectionCursor, saveProjectionCursor } from '@/lib/ehr/sync-state';
+
+// -----------------------------------------------------------------------------
+// EHR Observations -> health_data
+//
+// Synced Observations with a known LOINC code are projected into the same
+// `health_data` timeline as manual entries, in the unit the app logs that
+// `data_type` in, so dashboards, trends and insights see clinic vitals and labs.
+// -----------------------------------------------------------------------------
+const LOINC_SYSTEM = 'http://loinc.org';
+
+interface LoincMapping {
+  dataType: string;
+  unit: string;
+}
+
+// LOINC code -> data_type. Panels (blood pressure) are listed by component code.
+export const LOINC_DATA_TYPES: Record<string, LoincMapping> = {
+  '29463-7': { dataType: 'weight', unit: 'lbs' },
+  '3141-9': { dataType: 'weight', unit: 'lbs' },
+  '8302-2': { dataType: 'height', unit: 'in' },
+  '39156-5': { dataType: 'bmi', unit: 'kg/m2' },
+  '8480-6': { dataType: 'blood_pressure_systolic', unit: 'mmHg' },
+  '8462-4': { dataType: 'blood_pressure_diastolic', unit: 'mmHg' },
+  '8867-4': { dataType: 'heart_rate', unit: 'bpm' },
+  '9279-1': { dataType: 'respiratory_rate', unit: 'breaths/min' },
+  '8310-5': { dataType: 'body_temperature', unit: '°F' },
+  '59408-5': { dataType: 'oxygen_saturation', unit: '%' },
+  '2708-6': { dataType: 'oxygen_saturation', unit: '%' },
+  '2339-0': { dataType: 'glucose', unit: 'mg/dL' },
+  '2345-7': { dataType: 'glucose', unit: 'mg/dL' },
+  '41653-7': { dataType: 'glucose', unit: 'mg/dL' },
+  '4548-4': { dataType: 'a1c', unit: '%' },
+  '17856-6': { dataType: 'a1c', unit: '%' },
+  '2093-3': { dataType: 'cholesterol_total', unit: 'mg/dL' },
+  '2085-9': { dataType: 'cholesterol_hdl', unit: 'mg/dL' },
+  '13457-7': { dataType: 'cholesterol_ldl', unit: 'mg/dL' },
+  '18262-6': { dataType: 'cholesterol_ldl', unit: 'mg/dL' },
+  '2571-8': { dataType: 'triglycerides', unit: 'mg/dL' },
+  '55423-8': { dataType: 'steps', unit: 'steps' },
+  '93832-4': { dataType: 'sleep', unit: 'hours' },
+};
+
+// Blood pressure panel codes whose values live in `component`
+const PANEL_CODES = new Set(['85354-9', '55284-4']);
+
+// Observations projected per round trip; panels make up to two rows each, which keeps
+// the health_data lookup under PostgREST's default 1,000-row cap
+const PROJECTION_PAGE_SIZE = 400;
+
+// Manual entries of the same type, on the same day, within this relative
+// difference are treated as the same reading and the EHR copy is skipped.
+const DUPLICATE_TOLERANCE = 0.02;
+
+// -----------------------------------------------------------------------------
+// Unit conversion into the data_type's unit
+// -----------------------------------------------------------------------------
+const MMOL_TO_MG_DL: Record<string, number> = {
+  glucose: 18.016,
+  cholesterol_total: 38.67,
+  cholesterol_hdl: 38.67,
+  cholesterol_ldl: 38.67,
+  triglycerides: 88.57,
+};
+
+export function convertUnit(dataType: string, value: number, fromUnit: string | null, toUnit: string): number | null {
+  const from = (fromUnit || '').trim();
+  const normalized = from.toLowerCase();
+
+  if (!from || normalized === toUnit.toLowerCase()) return value;
+
+  switch (toUnit) {
+    case 'lbs':
+      if (normalized === 'kg') return value * 2.20462;
+      if (normalized === 'g') return value * 0.00220462;
+      if (['[lb_av]', 'lb', 'lbs'].includes(normalized)) return value;
+      if (['[oz_av]', 'oz'].includes(normalized)) return value / 16;
+      return null;
+    case 'in':
+      if (normalized === 'cm') return value / 2.54;
+      if (normalized === 'm') return value / 0.0254;
+      if (['[in_i]', 'in'].includes(normalized)) return value;
+      if (['[ft_i]', 'ft'].includes(normalized)) return value * 12;
+      return null;
+    case '°F':
+      if (['cel', '°c', 'c'].includes(normalized)) return value * 9 / 5 + 32;
+      if (['[degf]', '°f', 'f'].includes(normalized)) return value;
+      return null;
+    case 'mg/dL':
+      if (normalized === 'mg/dl') return value;
+      if (normalized === 'mmol/l' && MMOL_TO_MG_DL[dataType]) return value * MMOL_TO_MG_DL[dataType];
+      return null;
+    case 'bpm':
+      return ['/min', 'beats/min', '{beats}/min'].includes(normalized) ? value : null;
+    case 'breaths/min':
+      return ['/min', '{breaths}/min'].includes(normalized) ? value : null;
+    case 'hours':
+      if (normalized === 'h') return value;
+      if (normalized === 'min') return value / 60;
+      return null;
+    case 'steps':
+      return ['{steps}', '/d', '{steps}/d'].includes(normalized) ? value : null;
+    case '%':
+      return normalized === '%' ? value : null;
+    case 'kg/m2':
+      return normalized === 'kg/m2' ? value : null;
+    case 'mmHg':
+      return ['mm[hg]', 'mmhg'].includes(normalized) ? value : null;
+    default:
+      return null;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Projection
+// -----------------------------------------------------------------------------
+export interface HealthDataProjection {
+  user_id: string;
+  data_type: string;
+  data: number;
+  unit: string;
+  date: string;
+  source: string;
+  source_resource_id: string;
+  notes: string | null;
+  goal_id: null;
+  tags: string[];
+  is_private: boolean;
+  // The Observation's normal range, converted like the value
+  reference_low: number | null;
+  reference_high: number | null;
+}
+
+export function projectObservation(userId: string, vendor: string, row: any): HealthDataProjection[] {
+  const resource = row.resource_data;
+  const date = row.effective_at;
+  if (!resource || !date) return [];
+
+  const measurements: Array<{
+    code: string;
+    value: number;
+    unit: string | null;
+    low: number | null;
+    high: number | null;
+  }> = [];
+
+  const codes: string[] = (resource.code?.coding ?? [])
+    .filter((coding: any) => coding.system === LOINC_SYSTEM)
+    .map((coding: any) => coding.code);
+
+  if (codes.some((code) => PANEL_CODES.has(code))) {
+    for (const component of resource.component ?? []) {
+      const code = component.code?.coding?.find((coding: any) => coding.system === LOINC_SYSTEM)?.code;
+      const quantity = component.valueQuantity;
+      const range = component.referenceRange?.[0];
+      if (code && typeof quantity?.value === 'number') {
+        measurements.push({
+          code,
+          value: quantity.value,
+          unit: quantity.unit || quantity.code || null,
+          low: range?.low?.value ?? null,
+          high: range?.high?.value ?? null,
+        });
+      }
+    }
+  } else if (typeof row.value_numeric === 'number') {
+    const code = codes.find((c) => LOINC_DATA_TYPES[c]);
+    if (code) {
+      measurements.push({
+        code,
+        value: row.value_numeric,
+        unit: row.value_unit,
+        low: row.reference_low ?? null,
+        high: row.reference_high ?? null,
+      });
+    }
+  }
+
+  const projections: HealthDataProjection[] = [];
+  for (const { code, value, unit, low, high } of measurements) {
+    const mapping = LOINC_DATA_TYPES[code];
+    if (!mapping) continue;
+
+    const converted = convertUnit(mapping.dataType, value, unit, mapping.unit);
+    if (converted === null) {
+      console.warn(`⚠️ No conversion from "${unit}" to ${mapping.unit} for ${mapping.dataType}; skipping Observation/${row.id}`);
+      continue;
+    }
+
+    projections.push({
+      user_id: userId,
+      data_type: mapping.dataType,
+      data: Math.round(converted * 100) / 100,
+      unit: mapping.unit,
+      date,
+      source: vendor,
+      source_resource_id: `Observation/${row.id}`,
+      notes: row.code_display ?? null,
+      goal_id: null,
+      tags: ['ehr'],
+      is_private: false,
+      reference_low: convertBound(mapping.dataType, low, unit, mapping.unit),
+      reference_high: convertBound(mapping.dataType, high, unit, mapping.unit),
+    });
+  }
+
+  return projections;
+}
+
+function convertBound(dataType: string, bound: number | null, fromUnit: string | null, toUnit: string) {
+  if (bound === null) return null;
+  const converted = convertUnit(dataType, bound, fromUnit, toUnit);
+  return converted === null ? null : Math.round(converted * 100) / 100;
+}
+
+// Projects Observations synced since the user's projection cursor into their
+// health_data, skipping readings the user already logged by hand and flagging
+// anomalous ones. Observations the EHR amended are re-synced with a newer synced_at,
+// so their projections are updated in place; ones the user deleted stay deleted.
+// The cursor only moves once everything is projected, so Observations saved by an
+// attempt that failed later, or synced before the user linked, still get here.
+export async function syncObservationsToHealthData(
+  userId: string,
+  vendor: string,
+  patientFhirId: string
+): Promise<{ projected: number; duplicates: number }> {
+  const since = await getProjectionCursor(userId, vendor, patientFhirId);
+  let projectedThrough = since;
+  let projected = 0;
+  let duplicates = 0;
+
+  for (let offset = 0; ; offset += PROJECTION_PAGE_SIZE) {
+    let query = requireSupabase()
+      .from('observations')
+      .select('id, resource_data, effective_at, value_numeric, value_unit, code, code_display, reference_low, reference_high, synced_at')
+      .eq('patient_fhir_id', patientFhirId)
+      .eq('vendor', vendor)
+      .in('code', [...Object.keys(LOINC_DATA_TYPES), ...PANEL_CODES])
+      .order('synced_at', { ascending: true, nullsFirst: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PROJECTION_PAGE_SIZE - 1);
+
+    if (since) {
+      query = query.gt('synced_at', since);
+    }
+
+    const { data: rows, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load observations for health_data projection: ${error.message}`);
+    }
+    if (!rows || rows.length === 0) break;
+
+    const page = await projectPage(userId, vendor, rows);
+    projected += page.projected;
+    duplicates += page.duplicates;
+
+    const lastSynced = rows[rows.length - 1].synced_at as string | null;
+    if (lastSynced && (!projectedThrough || lastSynced > projectedThrough)) projectedThrough = lastSynced;
+    if (rows.length < PROJECTION_PAGE_SIZE) break;
+  }
+
+  if (projectedThrough && projectedThrough !== since) {
+    await saveProjectionCursor(userId, vendor, patientFhirId, projectedThrough);
+  }
+
+  console.log(`✅ Projected ${projected} ${vendor} Observations into health_data (${duplicates} duplicates of manual entries)`);
+  return { projected, duplicates };
+}
+
+async function projectPage(userId: string, vendor: string, rows: any[]) {
+  const supabase = requireSupabase();
+  const projections = rows.flatMap((row) => projectObservation(userId, vendor, row));
+  if (projections.length === 0) return { projected: 0, duplicates: 0 };
+
+  const { data: existing, error } = await supabase
+    .from('health_data')
+    .select('source_resource_id, data_type, deleted_at')
+    .eq('user_id', userId)
+    .eq('source', vendor)
+    .in('source_resource_id', [...new Set(projections.map((p) => p.source_resource_id))]);
+
+  if (error) {
+    throw new Error(`Failed to load projected EHR health_data: ${error.message}`);
+  }
+
+  const key = (row: { source_resource_id: string; data_type: string }) => `${row.source_resource_id}|${row.data_type}`;
+  const deleted = new Set((existing ?? []).filter((row) => row.deleted_at).map(key));
+  const live = new Set((existing ?? []).filter((row) => !row.deleted_at).map(key));
+
+  // Already-projected readings are updates, not candidates for manual duplicates
+  const updates = projections.filter((p) => live.has(key(p)));
+  const candidates = projections.filter((p) => !live.has(key(p)) && !deleted.has(key(p)));
+  const inserts = candidates.length > 0 ? await withoutManualDuplicates(userId, candidates) : [];
+  const fresh = [...updates, ...inserts];
+
+  if (fresh.length > 0) {
+    // Clinic readings get the same out-of-range and baseline checks as manual ones
+    const flags = await scoreReadings(userId, fresh);
+    const { error: upsertError } = await supabase
+      .from('health_data')
+      .upsert(
+        fresh.map((projection, i) => ({ ...projection, ...anomalyColumns(flags[i]) })),
+        { onConflict: 'user_id,source,source_resource_id,data_type' }
+      );
+
+    if (upsertError) {
+      throw new Error(`Failed to upsert EHR health_data: ${upsertError.message}`);
+    }
+  }
+
+  return { projected: fresh.length, duplicates: candidates.length - inserts.length };
+}
+
+async function withoutManualDuplicates(userId: string, projections: HealthDataProjection[]) {
+  const dates = projections.map((p) => p.date).sort();
+  const dataTypes = [...new Set(projections.map((p) => p.data_type))];
+  const dayStart = `${dates[0].slice(0, 10)}T00:00:00Z`;
+  const dayEnd = `${dates[dates.length - 1].slice(0, 10)}T23:59:59Z`;
+
+  const { data: manual, error } = await selectAllPages((from, to) => requireSupabase()
+    .from('health_data')
+    .select('data_type, data, date')
+    .eq('user_id', userId)
+    .eq('source', 'manual')
+    .is('deleted_at', null)
+    .in('data_type', dataTypes)
+    .gte('date', dayStart)
+    .lte('date', dayEnd)
+    .order('date', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to));
+
+  if (error) {
+    // Without the manual rows we can't dedupe; a duplicate is better than a gap
+    console.error('❌ Failed to load manual entries for de-duplication:', error);
+    return projections;
+  }
+
+  return projections.filter((projection) => !(manual ?? []).some((entry) => {
+    const value = Number(entry.data);
+    return entry.data_type === projection.data_type &&
+      String(entry.date).slice(0, 10) === projection.date.slice(0, 10) &&
+      Number.isFinite(value) &&
+      Math.abs(value - projection.data) <= Math.abs(projection.data) * DUPLICATE_TOLERANCE;
+  }));
+}
@@ -0,0 +1,335 @@
+import type {
+  CarePlan,
+  CodeableConcept,
+  Condition,
+  Dosage,
+  DiagnosticReport,
+  Encounter,
+  Goal,
+  Immunization,
+  Medication,
+  MedicationRequest,
+  MedicationStatement,
+  Observation,
+  Period,
+  Procedure,
+} from '@/lib/ehr/fhir-types';
+
+// -----------------------------------------------------------------------------
+// Normalized columns
+//
+// Each synced row keeps the raw resource in resource_data; these mappers pull the
+// fields the wellness routes query into typed columns next to it.
+// -----------------------------------------------------------------------------
+export interface CodedColumns {
+  code_system: string | null;
+  code: string | null;
+  code_display: string | null;
+}
+
+export interface ObservationRecord extends CodedColumns {
+  category: string | null;
+  effective_at: string | null;
+  value_numeric: number | null;
+  value_unit: string | null;
+  value_text: string | null;
+  interpretation: string | null;
+  reference_low: number | null;
+  reference_high: number | null;
+}
+
+export interface DosageColumns {
+  dosage_text: string | null;
+  dose_value: number | null;
+  dose_unit: string | null;
+  frequency: number | null;
+  period: number | null;
+  period_unit: string | null;
+  route: string | null;
+  as_needed: boolean | null;
+}
+
+export interface MedicationRequestRecord extends CodedColumns, DosageColumns {
+  intent: string | null;
+  authored_on: string | null;
+}
+
+export interface MedicationStatementRecord extends CodedColumns, DosageColumns {
+  effective_at: string | null;
+}
+
+export interface MedicationRecord extends CodedColumns {
+  form: string | null;
+}
+
+export interface ConditionRecord extends CodedColumns {
+  category: string | null;
+  clinical_status: string | null;
+  verification_status: string | null;
+  onset_at: string | null;
+  abatement_at: string | null;
+  recorded_date: string | null;
+}
+
+export interface DiagnosticReportRecord extends CodedColumns {
+  category: string | null;
+  effective_at: string | null;
+  issued_at: string | null;
+}
+
+export interface ProcedureRecord extends CodedColumns {
+  performed_at: string | null;
+}
+
+export interface GoalRecord extends CodedColumns {
+  lifecycle_status: string | null;
+  start_date: string | null;
+  due_date: string | null;
+}
+
+export interface CarePlanRecord extends CodedColumns {
+  title: string | null;
+  intent: string | null;
+  period_start: string | null;
+  period_end: string | null;
+}
+
+export interface ImmunizationRecord extends CodedColumns {
+  occurrence_at: string | null;
+}
+
+export interface EncounterRecord extends CodedColumns {
+  encounter_class: string | null;
+  period_start: string | null;
+  period_end: string | null;
+}
+
+export type NormalizedRecord =
+  | ObservationRecord
+  | MedicationRequestRecord
+  | MedicationStatementRecord
+  | MedicationRecord
+  | ConditionRecord
+  | DiagnosticReportRecord
+  | ProcedureRecord
+  | GoalRecord
+  | CarePlanRecord
+  | ImmunizationRecord
+  | EncounterRecord;
+
+const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+
+// Preferred code systems, most specific first, for picking the "main" coding
+const PREFERRED_SYSTEMS = [
+  'http://loinc.org',
+  'http://snomed.info/sct',
+  'http://www.nlm.nih.gov/research/umls/rxnorm',
+  'http://hl7.org/fhir/sid/cvx',
+  'http://hl7.org/fhir/sid/icd-10-cm',
+];
+
+// -----------------------------------------------------------------------------
+// Entry point used by the sync
+// -----------------------------------------------------------------------------
+export function normalizeResource(resourceType: string, resource: any): NormalizedRecord | Record<string, never> {
+  switch (resourceType) {
+    case 'Observation':
+      return normalizeObservation(resource);
+    case 'MedicationRequest':
+      return normalizeMedicationRequest(resource);
+    case 'MedicationStatement':
+      return normalizeMedicationStatement(resource);
+    case 'Medication':
+      return normalizeMedication(resource);
+    case 'Condition':
+      return normalizeCondition(resource);
+    case 'DiagnosticReport':
+      return normalizeDiagnosticReport(resource);
+    case 'Procedure':
+      return normalizeProcedure(resource);
+    case 'Goal':
+      return normalizeGoal(resource);
+    case 'CarePlan':
+      return normalizeCarePlan(resource);
+    case 'Immunization':
+      return normalizeImmunization(resource);
+    case 'Encounter':
+      return normalizeEncounter(resource);
+    default:
+      return {};
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Mappers
+// -----------------------------------------------------------------------------
+export function normalizeObservation(resource: Observation): ObservationRecord {
+  const quantity = resource.valueQuantity;
+  const range = resource.referenceRange?.[0];
+
+  return {
+    ...codedColumns(resource.code),
+    category: observationCategory(resource),
+    effective_at: fhirDate(
+      resource.effectiveDateTime || resource.effectiveInstant || resource.effectivePeriod?.start || resource.issued
+    ),
+    value_numeric: typeof quantity?.value === 'number' ? quantity.value : resource.valueInteger ?? null,
+    value_unit: quantity?.unit || quantity?.code || null,
+    value_text:
+      resource.valueString ??
+      conceptText(resource.valueCodeableConcept) ??
+      (typeof resource.valueBoolean === 'boolean' ? String(resource.valueBoolean) : null),
+    interpretation: firstCoding(resource.interpretation?.[0])?.code ?? null,
+    reference_low: range?.low?.value ?? null,
+    reference_high: range?.high?.value ?? null,
+  };
+}
+
+// medicationReference usually carries a display even before the Medication itself
+// is resolved, so it names the drug when there's no inline concept.
+export function normalizeMedicationRequest(resource: MedicationRequest): MedicationRequestRecord {
+  return {
+    ...codedColumns(resource.medicationCodeableConcept, resource.medicationReference?.display),
+    ...dosageColumns(resource.dosageInstruction?.[0]),
+    intent: resource.intent ?? null,
+    authored_on: fhirDate(resource.authoredOn),
+  };
+}
+
+export function normalizeMedicationStatement(resource: MedicationStatement): MedicationStatementRecord {
+  return {
+    ...codedColumns(resource.medicationCodeableConcept, resource.medicationReference?.display),
+    ...dosageColumns(resource.dosage?.[0]),
+    effective_at: fhirDate(resource.effectiveDateTime || resource.effectivePeriod?.start),
+  };
+}
+
+export function normalizeMedication(resource: Medication): MedicationRecord {
+  return {
+    ...codedColumns(resource.code),
+    form: conceptText(resource.form),
+  };
+}
+
+export function normalizeCondition(resource: Condition): ConditionRecord {
+  return {
+    ...codedColumns(resource.code),
+    category: firstCoding(resource.category?.[0])?.code ?? null,
+    clinical_status: firstCoding(resource.clinicalStatus)?.code ?? null,
+    verification_status: firstCoding(resource.verificationStatus)?.code ?? null,
+    onset_at: fhirDate(resource.onsetDateTime || resource.onsetPeriod?.start),
+    abatement_at: fhirDate(resource.abatementDateTime),
+    recorded_date: fhirDate(resource.recordedDate),
+  };
+}
+
+export function normalizeDiagnosticReport(resource: DiagnosticReport): DiagnosticReportRecord {
+  return {
+    ...codedColumns(resource.code),
+    category: firstCoding(resource.category?.[0])?.code ?? null,
+    effective_at: fhirDate(resource.effectiveDateTime || resource.effectivePeriod?.start),
+    issued_at: fhirDate(resource.issued),
+  };
+}
+
+export function normalizeProcedure(resource: Procedure): ProcedureRecord {
+  return {
+    ...codedColumns(resource.code),
+    performed_at: fhirDate(resource.performedDateTime || resource.performedPeriod?.start),
+  };
+}
+
+export function normalizeGoal(resource: Goal): GoalRecord {
+  return {
+    ...codedColumns(resource.description),
+    lifecycle_status: resource.lifecycleStatus ?? null,
+    start_date: fhirDate(resource.startDate),
+    due_date: fhirDate(resource.target?.find((target) => target.dueDate)?.dueDate),
+  };
+}
+
+export function normalizeCarePlan(resource: CarePlan): CarePlanRecord {
+  return {
+    ...codedColumns(resource.category?.[0]),
+    title: resource.title ?? null,
+    intent: resource.intent ?? null,
+    ...periodColumns(resource.period),
+  };
+}
+
+export function normalizeImmunization(resource: Immunization): ImmunizationRecord {
+  return {
+    ...codedColumns(resource.vaccineCode),
+    occurrence_at: fhirDate(resource.occurrenceDateTime),
+  };
+}
+
+export function normalizeEncounter(resource: Encounter): EncounterRecord {
+  return {
+    ...codedColumns(resource.type?.[0]),
+    encounter_class: resource.class?.code ?? null,
+    ...periodColumns(resource.period),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+function firstCoding(concept: CodeableConcept | undefined) {
+  const codings = concept?.coding ?? [];
+  for (const system of PREFERRED_SYSTEMS) {
+    const match = codings.find((coding) => coding.system === system && coding.code);
+    if (match) return match;
+  }
+  return codings.find((coding) => coding.code) ?? codings[0];
+}
+
+function conceptText(concept: CodeableConcept | undefined): string | null {
+  return concept?.text || firstCoding(concept)?.display || null;
+}
+
+function codedColumns(concept: CodeableConcept | undefined, fallbackDisplay?: string): CodedColumns {
+  const coding = firstCoding(concept);
+  return {
+    code_system: coding?.system ?? null,
+    code: coding?.code ?? null,
+    code_display: conceptText(concept) || fallbackDisplay || null,
+  };
+}
+
+function dosageColumns(dosage: Dosage | undefined): DosageColumns {
+  const dose = dosage?.doseAndRate?.[0]?.doseQuantity;
+  const repeat = dosage?.timing?.repeat;
+  return {
+    dosage_text: dosage?.text ?? null,
+    dose_value: dose?.value ?? null,
+    dose_unit: dose?.unit || dose?.code || null,
+    frequency: repeat?.frequency ?? null,
+    period: repeat?.period ?? null,
+    period_unit: repeat?.periodUnit ?? null,
+    route: conceptText(dosage?.route),
+    as_needed: dosage?.asNeededBoolean ?? null,
+  };
+}
+
+function periodColumns(period: Period | undefined) {
+  return { period_start: fhirDate(period?.start), period_end: fhirDate(period?.end) };
+}
+
+// FHIR dates may be partial ("2019", "2019-07"); Postgres needs a full date
+export function fhirDate(value: string | undefined): string | null {
+  if (!value) return null;
+  if (/^\d{4}$/.test(value)) return `${value}-01-01`;
+  if (/^\d{4}-\d{2}$/.test(value)) return `${value}-01`;
+  return value;
+}
+
+function observationCategory(resource: Observation): string | null {
+  for (const category of resource.category ?? []) {
+    const coding = (category.coding ?? []).find(
+      (c) => c.system === OBSERVATION_CATEGORY_SYSTEM && c.code
+    );
+    if (coding) return coding.code!;
+  }
+  return resource.category?.[0]?.coding?.[0]?.code ?? null;
+}
@@ -0,0 +1,312 @@
+import { after, NextResponse } from 'next/server';
+import axios from 'axios';
+import { optionalAuthentication } from '@/lib/auth';
+import { FhirProvider, getProvider, isAllowedIssuer } from '@/lib/ehr/providers';
+import {
+  codeChallengeS256,
+  consumeLaunchSession,
+  createLaunchSession,
+  discoverSmartConfiguration,
+  generateCodeVerifier,
+  generateState,
+} from '@/lib/ehr/smart';
+import { fetchPatient, patientDisplayName } from '@/lib/ehr/sync';
+import { enqueueSyncJob, runSyncWorker } from '@/lib/ehr/sync-jobs';
+import { PendingConnection, saveTokens, stashTokens, TokenResponse } from '@/lib/ehr/token-vault';
+import { linkPatient } from '@/lib/ehr/patient-links';
+
+// -----------------------------------------------------------------------------
+// Shared SMART on FHIR launch + callback handlers
+//
+// Every provider route (`/api/ehr/[provider]/oauth/*` and the legacy Epic/Cerner
+// paths) delegates here with a provider id from the registry.
+// -----------------------------------------------------------------------------
+
+const APP_HOME_URL = 'https://app.well-thread.com/';
+const APP_ERROR_URL = 'https://app.well-thread.com/error';
+
+function unknownProvider(providerId: string) {
+  console.error(`❌ Unknown or disabled EHR provider: ${providerId}`);
+  return NextResponse.json({ error: `Unknown EHR provider: ${providerId}` }, { status: 404 });
+}
+
+async function resolveEndpoints(provider: FhirProvider, iss: string) {
+  if (provider.authorizationEndpoint && provider.tokenEndpoint) {
+    return {
+      authorization_endpoint: provider.authorizationEndpoint,
+      token_endpoint: provider.tokenEndpoint,
+    };
+  }
+  return discoverSmartConfiguration(iss);
+}
+
+// -----------------------------------------------------------------------------
+// Launch - Starts standalone (no params) or EHR launch (`launch` + `iss`)
+// -----------------------------------------------------------------------------
+export async function handleAuthorize(req: Request, providerId: string) {
+  const provider = getProvider(providerId);
+  if (!provider) return unknownProvider(providerId);
+
+  const url = new URL(req.url);
+  const isIOSApp = url.searchParams.get('ios_app') === 'true';
+  const launch = url.searchParams.get('launch');
+  const issParam = url.searchParams.get('iss');
+
+  // Tokens are only stored against a user proven by their session token; a bare
+  // `userId` would let anyone attach their EHR login to someone else's account.
+  const auth = await optionalAuthentication(req, url.searchParams.get('userId'));
+  if (auth.response) return auth.response;
+  const userId = auth.userId;
+
+  if (launch && !issParam) {
+    console.error('❌ EHR launch received without iss.');
+    return NextResponse.json({ error: 'EHR launch requires iss' }, { status: 400 });
+  }
+
+  const iss = (issParam || provider.fhirBase).replace(/\/+$/, '');
+  if (!isAllowedIssuer(provider, iss)) {
+    console.error(`❌ Refusing ${provider.displayName} launch against unrecognized iss: ${iss}`);
+    return NextResponse.json({ error: 'Unrecognized FHIR server' }, { status: 400 });
+  }
+
+  try {
+    const endpoints = await resolveEndpoints(provider, iss);
+
+    const state = generateState();
+    const codeVerifier = generateCodeVerifier();
+    const redirectUri = isIOSApp ? provider.iosRedirectUri : provider.webRedirectUri;
+
+    await createLaunchSession({
+      state,
+      vendor: provider.id,
+      user_id: userId,
+      code_verifier: codeVerifier,
+      redirect_uri: redirectUri,
+      iss,
+      token_endpoint: endpoints.token_endpoint,
+      launch,
+      client: isIOSApp ? 'ios' : 'web',
+    });
+
+    const authorizeUrl = new URL(endpoints.authorization_endpoint);
+    authorizeUrl.searchParams.set('response_type', 'code');
+    authorizeUrl.searchParams.set('client_id', provider.clientId);
+    authorizeUrl.searchParams.set('redirect_uri', redirectUri);
+    authorizeUrl.searchParams.set('scope', launch ? provider.ehrLaunchScopes : provider.standaloneScopes);
+    authorizeUrl.searchParams.set('state', state);
+    authorizeUrl.searchParams.set('aud', iss);
+    authorizeUrl.searchParams.set('code_challenge', codeChallengeS256(codeVerifier));
+    authorizeUrl.searchParams.set('code_challenge_method', 'S256');
+    if (launch) {
+      authorizeUrl.searchParams.set('launch', launch);
+    }
+
+    console.log(`🔍 Starting ${provider.displayName} ${launch ? 'EHR' : 'standalone'} launch against ${iss}`);
+
+    // The iOS app opens the URL itself in an auth session and passes `state` back to the callback.
+    if (isIOSApp) {
+      return NextResponse.json({ authorize_url: authorizeUrl.toString(), state });
+    }
+    return NextResponse.redirect(authorizeUrl.toString());
+
+  } catch (error: any) {
+    console.error(`❌ ${provider.displayName} launch failed:`, error.response?.data || error.message);
+    if (isIOSApp) {
+      return NextResponse.json({ error: `${provider.displayName} launch failed` }, { status: 502 });
+    } else {
+      return NextResponse.redirect(APP_ERROR_URL);
+    }
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Callback - Handles both web redirects and iOS app calls
+// -----------------------------------------------------------------------------
+export async function handleCallback(req: Request, providerId: string) {
+  const provider = getProvider(providerId);
+  if (!provider) return unknownProvider(providerId);
+
+  const url = new URL(req.url);
+  const code = url.searchParams.get('code');
+  const state = url.searchParams.get('state');
+  const authError = url.searchParams.get('error');
+  let isIOSApp = url.searchParams.get('ios_app') === 'true';
+
+  if (authError) {
+    console.error(`❌ ${provider.displayName} returned an authorization error:`, authError, url.searchParams.get('error_description'));
+    if (isIOSApp) {
+      return NextResponse.json({ error: `${provider.displayName} authorization was denied`, details: authError }, { status: 400 });
+    } else {
+      return NextResponse.redirect(APP_ERROR_URL);
+    }
+  }
+
+  if (!code || !state) {
+    console.error('❌ Missing authorization code or state.');
+    if (isIOSApp) {
+      return NextResponse.json({ error: 'Missing authorization code or state' }, { status: 400 });
+    } else {
+      return NextResponse.redirect(APP_ERROR_URL);
+    }
+  }
+
+  // The launch session holds the PKCE verifier and redirect URI chosen by /authorize.
+  // Unknown, expired or already-used state means a forged or replayed callback.
+  const session = await consumeLaunchSession(state, provider.id);
+  if (!session) {
+    console.error('❌ Unknown, expired or already used state.');
+    if (isIOSApp) {
+      return NextResponse.json({ error: 'Invalid or expired state' }, { status: 400 });
+    } else {
+      return NextResponse.redirect(APP_ERROR_URL);
+    }
+  }
+  isIOSApp = session.client === 'ios';
+  const fhirBase = session.iss;
+
+  try {
+    console.log(`🔍 ${provider.displayName} OAuth callback received:`);
+    console.log('   - code:', code.substring(0, 20) + '...');
+    console.log('   - iss:', fhirBase);
+    console.log('   - launch:', session.launch ? 'ehr' : 'standalone');
+    console.log('   - isIOSApp:', isIOSApp);
+
+    // 1. Exchange code for access token
+    const params = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: session.redirect_uri,
+      client_id: provider.clientId,
+      code_verifier: session.code_verifier,
+    });
+
+    // Public clients send no secret; confidential clients authenticate with theirs
+    if (provider.clientSecret) {
+      params.append('client_secret', provider.clientSecret);
+    }
+
+    console.log(`🔍 Sending to ${provider.displayName}:`, session.token_endpoint);
+
+    const tokenResponse = await axios.post(session.token_endpoint, params);
+    const tokenData: TokenResponse = tokenResponse.data;
+    const accessToken: string = tokenData.access_token;
+    console.log('✅ OAuth token exchange successful');
+
+    // 2. Extract patient FHIR ID from token response (or id_token claims)
+    const patientFhirId = provider.extractPatientId(tokenData);
+
+    if (!patientFhirId) {
+      console.warn('⚠️ Token response did not include a patient ID. Fields:', Object.keys(tokenData));
+      if (isIOSApp) {
+        return NextResponse.json({ error: 'No patient ID found' }, { status: 400 });
+      } else {
+        return NextResponse.redirect(APP_HOME_URL);
+      }
+    }
+
+    // 3. Fetch the full Patient resource
+    const patientResource = await fetchPatient(fhirBase, patientFhirId, accessToken);
+    const patientName = patientDisplayName(patientResource);
+
+    console.log(`✅ Logged in as ${provider.displayName} patient: ${patientName} (FHIR ID: ${patientFhirId})`);
+
+    // 4. Link the patient to the signed-in user and persist tokens so later syncs
+    // don't need the patient to sign in again. A patient already linked to another
+    // account, or a second patient for a vendor the user already has a link for, is
+    // refused before anything is stored. Without a signed-in user the tokens are held
+    // for the app to claim once someone signs in.
+    const connection: PendingConnection = {
+      vendor: provider.id,
+      patient_fhir_id: patientFhirId,
+      fhir_base: fhirBase,
+      token_endpoint: session.token_endpoint,
+      patient_name: patientName,
+    };
+    let syncJobId: string | undefined;
+    let connectionCode: string | undefined;
+    if (session.user_id) {
+      const connected = await connectPatient(session.user_id, connection, tokenData);
+      if (connected.status !== 'connected') {
+        if (isIOSApp) {
+          return NextResponse.json(
+            {
+              error: connected.status === 'conflict'
+                ? `This ${provider.displayName} record is already linked to another account`
+                : `This account is already linked to another ${provider.displayName} record; unlink it first`
+            },
+            { status: 409 }
+          );
+        } else {
+          return NextResponse.redirect(APP_ERROR_URL);
+        }
+      }
+      syncJobId = connected.syncJobId;
+    } else if (isIOSApp) {
+      connectionCode = await stashTokens(connection, tokenData);
+      console.log(`🔐 Holding ${provider.displayName} tokens until the app signs in and claims them`);
+    } else {
+      console.warn('⚠️ Launch was not started by a signed-in user; the patient will not be linked and tokens will not be stored.');
+    }
+
+    // Return appropriate response based on caller. Access tokens never leave the
+    // server; an anonymous launch gets a one-time code to claim them with after
+    // sign-in (POST /api/ehr/links), which links the patient and queues the first
+    // sync. Nothing is fetched from the EHR until then.
+    if (isIOSApp) {
+      return NextResponse.json({
+        success: true,
+        connection_code: connectionCode,
+        patient_id: patientFhirId,
+        patient_info: { id: patientFhirId, name: patientName },
+        sync_job_id: syncJobId,
+        message: `${provider.displayName} authentication successful! You can now use the chatbot.`
+      });
+    } else {
+      return NextResponse.redirect(APP_HOME_URL);
+    }
+
+  } catch (error: any) {
+    console.error('❌ OAuth flow failed:', error.response?.data || error.message);
+    if (isIOSApp) {
+      return NextResponse.json({
+        error: `${provider.displayName} authentication failed`,
+        details: error.response?.data || error.message
+      }, { status: 400 });
+    } else {
+      return NextResponse.redirect(APP_ERROR_URL);
+    }
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Connect - links a patient to a user, stores their tokens and queues a sync
+// -----------------------------------------------------------------------------
+export type ConnectResult =
+  | { status: 'connected'; syncJobId: string }
+  | { status: 'conflict' }
+  | { status: 'already_linked'; patientFhirId: string };
+
+export async function connectPatient(
+  userId: string,
+  connection: PendingConnection,
+  tokens: TokenResponse
+): Promise<ConnectResult> {
+  const { vendor, patient_fhir_id, fhir_base, token_endpoint, patient_name } = connection;
+  const link = await linkPatient({ user_id: userId, vendor, patient_fhir_id, fhir_base, patient_name });
+  if (link.status === 'conflict') return { status: 'conflict' };
+  if (link.status === 'already_linked') {
+    return { status: 'already_linked', patientFhirId: link.link.patient_fhir_id };
+  }
+  console.log(`🔗 ${link.status === 'linked' ? 'Linked' : 'Refreshed link for'} ${vendor} patient ${patient_fhir_id} to user ${userId}`);
+
+  await saveTokens({ user_id: userId, vendor, patient_fhir_id, fhir_base, token_endpoint }, tokens);
+  console.log(`🔐 Stored ${vendor} tokens for user ${userId}`);
+
+  const job = await enqueueSyncJob(userId, vendor, patient_fhir_id);
+  console.log(`📬 Queued sync job ${job.id}`);
+  after(() => runSyncWorker({ jobId: job.id, limit: 1 }).catch((error) => {
+    console.error('❌ Post-response sync worker failed:', error);
+  }));
+
+  return { status: 'connected', syncJobId: job.id };
+}
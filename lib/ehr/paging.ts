@@ -0,0 +1,99 @@
+import axios from 'axios';
+
+// -----------------------------------------------------------------------------
+// FHIR Bundle paging
+//
+// Searches return one page at a time; the rest is behind `Bundle.link[rel=next]`.
+// `iterateBundlePages` follows those links until the server stops returning one
+// or a cap is hit, so long histories aren't silently truncated to the first page.
+// -----------------------------------------------------------------------------
+export interface PagingLimits {
+  maxPages: number;
+  maxEntries: number;
+}
+
+export interface PagedEntries {
+  entries: any[];
+  pages: number;
+  // True when a cap stopped paging while the server still had a next link
+  truncated: boolean;
+  // Server clock at the time of the search (first page `meta.lastUpdated`), if reported
+  serverTime?: string;
+}
+
+export const DEFAULT_PAGING_LIMITS: PagingLimits = {
+  maxPages: parseInt(process.env.FHIR_MAX_PAGES || '50'),
+  maxEntries: parseInt(process.env.FHIR_MAX_ENTRIES || '5000'),
+};
+
+export async function* iterateBundlePages(
+  firstUrl: string,
+  headers: Record<string, string>,
+  maxPages: number = DEFAULT_PAGING_LIMITS.maxPages
+): AsyncGenerator<any> {
+  const origin = new URL(firstUrl).origin;
+  let url: string | null = firstUrl;
+  let pages = 0;
+
+  while (url && pages < maxPages) {
+    const response: { data: any } = await axios.get(url, { headers });
+    pages++;
+    yield response.data;
+
+    url = nextLink(response.data, url);
+
+    // Never send the bearer token to a host other than the one we searched
+    if (url && new URL(url).origin !== origin) {
+      console.warn(`⚠️ Ignoring cross-origin next link: ${url}`);
+      url = null;
+    }
+  }
+}
+
+export async function fetchAllEntries(
+  firstUrl: string,
+  headers: Record<string, string>,
+  limits: PagingLimits = DEFAULT_PAGING_LIMITS
+): Promise<PagedEntries> {
+  const seen = new Set<string>();
+  const entries: any[] = [];
+  let pages = 0;
+  let truncated = false;
+  let serverTime: string | undefined;
+
+  for await (const bundle of iterateBundlePages(firstUrl, headers, limits.maxPages)) {
+    pages++;
+    if (pages === 1) serverTime = bundle?.meta?.lastUpdated;
+    const hasNext = Boolean(nextLink(bundle, firstUrl));
+    const pageEntries: any[] = bundle?.entry ?? [];
+
+    for (let i = 0; i < pageEntries.length; i++) {
+      const entry = pageEntries[i];
+      // OperationOutcome entries carry search warnings, not patient data
+      if (entry?.search?.mode === 'outcome') continue;
+
+      const key = entry.fullUrl || (entry.resource ? `${entry.resource.resourceType}/${entry.resource.id}` : null);
+      if (key) {
+        if (seen.has(key)) continue;
+        seen.add(key);
+      }
+
+      entries.push(entry);
+      if (entries.length >= limits.maxEntries) {
+        return { entries, pages, truncated: hasNext || i < pageEntries.length - 1, serverTime };
+      }
+    }
+
+    if (pages >= limits.maxPages && hasNext) {
+      truncated = true;
+    }
+  }
+
+  return { entries, pages, truncated, serverTime };
+}
+
+function nextLink(bundle: any, currentUrl: string): string | null {
+  const href = bundle?.link?.find((link: any) => link?.relation === 'next')?.url;
+  // Some servers return links relative to the request URL
+  return href ? new URL(href, currentUrl).toString() : null;
+}
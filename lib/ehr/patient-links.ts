@@ -0,0 +1,132 @@
+import { requireSupabase } from '@/lib/supabase';
+import { deleteTokens } from '@/lib/ehr/token-vault';
+import { cancelSyncJobs } from '@/lib/ehr/sync-jobs';
+
+// -----------------------------------------------------------------------------
+// Account linking
+//
+// `ehr_patient_links` ties a WellThread user to the (vendor, FHIR patient) they
+// signed in as. The wellness routes key everything by user_id, so this is what
+// lets synced records land on the right account.
+// -----------------------------------------------------------------------------
+export interface PatientLink {
+  id: string;
+  user_id: string;
+  vendor: string;
+  patient_fhir_id: string;
+  fhir_base: string;
+  patient_name: string | null;
+  linked_at: string;
+  updated_at: string;
+}
+
+export type LinkResult =
+  | { status: 'linked' | 'relinked'; link: PatientLink }
+  | { status: 'conflict' }
+  | { status: 'already_linked'; link: PatientLink };
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+// Links the user to the patient, or refreshes the link when the user signs in as the
+// same patient again. A user holds one link per vendor, and its tokens with it, so a
+// different patient is refused with `already_linked` until the user unlinks the first.
+// Refused with `conflict` when another user already holds the patient.
+export async function linkPatient(
+  link: Pick<PatientLink, 'user_id' | 'vendor' | 'patient_fhir_id' | 'fhir_base' | 'patient_name'>
+): Promise<LinkResult> {
+  const supabase = requireSupabase();
+
+  const { data: owner, error: ownerError } = await supabase
+    .from('ehr_patient_links')
+    .select('user_id')
+    .eq('vendor', link.vendor)
+    .eq('patient_fhir_id', link.patient_fhir_id)
+    .maybeSingle();
+
+  if (ownerError) {
+    throw new Error(`Failed to look up ${link.vendor} patient link: ${ownerError.message}`);
+  }
+  if (owner && owner.user_id !== link.user_id) {
+    console.warn(`⚠️ ${link.vendor} patient ${link.patient_fhir_id} is already linked to another user`);
+    return { status: 'conflict' };
+  }
+
+  const { data: current, error: currentError } = await supabase
+    .from('ehr_patient_links')
+    .select('*')
+    .eq('user_id', link.user_id)
+    .eq('vendor', link.vendor)
+    .maybeSingle();
+
+  if (currentError) {
+    throw new Error(`Failed to look up ${link.vendor} link for user: ${currentError.message}`);
+  }
+  if (current && current.patient_fhir_id !== link.patient_fhir_id) {
+    console.warn(`⚠️ User ${link.user_id} is already linked to ${link.vendor} patient ${current.patient_fhir_id}`);
+    return { status: 'already_linked', link: current as PatientLink };
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = current
+    ? await supabase
+      .from('ehr_patient_links')
+      .update({ fhir_base: link.fhir_base, patient_name: link.patient_name, updated_at: now })
+      .eq('id', current.id)
+      .select()
+      .single()
+    : await supabase
+      .from('ehr_patient_links')
+      .insert(link)
+      .select()
+      .single();
+
+  // A concurrent link took the patient or the user's slot for the vendor between the
+  // check and the insert; look again to report which
+  if (error?.code === UNIQUE_VIOLATION) {
+    console.warn(`⚠️ ${link.vendor} patient ${link.patient_fhir_id} was linked concurrently`);
+    return linkPatient(link);
+  }
+  if (error || !data) {
+    throw new Error(`Failed to link ${link.vendor} patient: ${error?.message}`);
+  }
+
+  return { status: current ? 'relinked' : 'linked', link: data as PatientLink };
+}
+
+export async function listPatientLinks(userId: string): Promise<PatientLink[]> {
+  const { data, error } = await requireSupabase()
+    .from('ehr_patient_links')
+    .select('*')
+    .eq('user_id', userId)
+    .order('linked_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to list patient links: ${error.message}`);
+  }
+  return (data ?? []) as PatientLink[];
+}
+
+// Removes the link along with the stored tokens and any pending syncs for it.
+// Records already synced stay in place. Returns false when the user has no such link.
+export async function unlinkPatient(userId: string, linkId: string): Promise<boolean> {
+  const { data, error } = await requireSupabase()
+    .from('ehr_patient_links')
+    .delete()
+    .eq('id', linkId)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to unlink patient: ${error.message}`);
+  }
+  if (!data) return false;
+
+  const link = data as PatientLink;
+  await deleteTokens(userId, link.vendor);
+  await cancelSyncJobs(userId, link.vendor, 'Connection was unlinked');
+
+  console.log(`🔗 Unlinked ${link.vendor} patient ${link.patient_fhir_id} from user ${userId}`);
+  return true;
+}
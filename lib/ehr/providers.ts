@@ -0,0 +1,187 @@
+import { extractPatientId } from '@/lib/ehr/sync';
+import { DEFAULT_PAGING_LIMITS, PagingLimits } from '@/lib/ehr/paging';
+
+// -----------------------------------------------------------------------------
+// FHIR provider interface
+//
+// Everything that differs between EHR vendors lives here, so the OAuth routes and
+// the sync code never branch on vendor names. New servers are configured through
+// the environment (see `loadProvider`), not by adding routes.
+// -----------------------------------------------------------------------------
+export interface ResourceQuirk {
+  // Vendor rejects or doesn't support a patient-scoped search for this type
+  skip?: boolean;
+  // Extra search params sent with the patient-scoped search
+  params?: Record<string, string>;
+  // Server ignores or rejects `_lastUpdated`; always pull this type in full
+  noLastUpdated?: boolean;
+  // Server rejects `_include`; referenced resources are read by id instead
+  noInclude?: boolean;
+}
+
+export interface FhirProvider {
+  id: string;
+  displayName: string;
+  fhirBase: string;
+  clientId: string;
+  clientSecret?: string;
+  // Override SMART discovery for servers without .well-known/smart-configuration
+  authorizationEndpoint?: string;
+  tokenEndpoint?: string;
+  standaloneScopes: string;
+  ehrLaunchScopes: string;
+  // FHIR servers we are willing to start an EHR launch against. An unchecked `iss`
+  // would let anyone point the launch at a server they control.
+  allowedIssuers: string[];
+  webRedirectUri: string;
+  iosRedirectUri: string;
+  resourceQuirks: Record<string, ResourceQuirk>;
+  paging: PagingLimits;
+  // Observation search is run once per category and merged; Epic rejects uncategorized searches
+  observationCategories: string[];
+  extractPatientId(tokenData: Record<string, any>): string | undefined;
+}
+
+type ProviderPreset = Partial<Omit<FhirProvider, 'id' | 'extractPatientId'>> & {
+  displayName: string;
+};
+
+const APP_BASE_URL = process.env.APP_BASE_URL || 'https://app.well-thread.com';
+
+// Millennium does not grant `patient/*.read`, so every resource we sync is listed.
+const CERNER_RESOURCE_SCOPES = [
+  'patient/Patient.read',
+  'patient/MedicationRequest.read',
+  'patient/Medication.read',
+  'patient/Observation.read',
+  'patient/DiagnosticReport.read',
+  'patient/Procedure.read',
+  'patient/Goal.read',
+  'patient/Condition.read',
+  'patient/CarePlan.read',
+  'patient/Immunization.read',
+].join(' ');
+
+// -----------------------------------------------------------------------------
+// Built-in presets; every field can still be overridden from the environment
+// -----------------------------------------------------------------------------
+const PRESETS: Record<string, ProviderPreset> = {
+  epic: {
+    displayName: 'Epic',
+    fhirBase: 'https://fhir.epic.com/interconnect-fhir-oauth/api/FHIR/R4',
+    webRedirectUri: `${APP_BASE_URL}/api/epic/oauth/callback`,
+    iosRedirectUri: 'formfiller://epic-oauth-callback',
+  },
+  cerner: {
+    displayName: 'Cerner',
+    // Millennium FHIR bases are per tenant; the default is the public patient sandbox.
+    fhirBase: 'https://fhir-myrecord.cerner.com/r4/ec2458f2-1e24-41c8-b71b-0e701af7583d',
+    webRedirectUri: `${APP_BASE_URL}/api/cerner/oauth/callback`,
+    iosRedirectUri: 'formfiller://cerner-oauth-callback',
+    standaloneScopes: `openid fhirUser launch/patient offline_access ${CERNER_RESOURCE_SCOPES}`,
+    ehrLaunchScopes: `openid fhirUser launch offline_access ${CERNER_RESOURCE_SCOPES}`,
+    resourceQuirks: {
+      MedicationStatement: { skip: true },
+    },
+    observationCategories: ['vital-signs', 'laboratory', 'social-history', 'survey'],
+  },
+  'smart-sandbox': {
+    displayName: 'SMART Health IT Sandbox',
+    fhirBase: 'https://launch.smarthealthit.org/v/r4/fhir',
+    clientId: 'wellthread',
+  },
+};
+
+const DEFAULT_OBSERVATION_CATEGORIES = ['vital-signs', 'laboratory', 'social-history', 'survey', 'activity'];
+
+const DEFAULT_STANDALONE_SCOPES = 'openid fhirUser launch/patient patient/*.read offline_access';
+const DEFAULT_EHR_LAUNCH_SCOPES = 'openid fhirUser launch patient/*.read offline_access';
+
+// -----------------------------------------------------------------------------
+// Registry
+// -----------------------------------------------------------------------------
+
+// `EHR_PROVIDERS` lists the providers enabled in this environment. Each one reads
+// `<ID>_FHIR_BASE`, `<ID>_CLIENT_ID`, `<ID>_CLIENT_SECRET`, `<ID>_SCOPES`, ... with
+// the id upper-cased and dashes turned into underscores (`smart-sandbox` -> `SMART_SANDBOX_`).
+const ENABLED_PROVIDER_IDS = (process.env.EHR_PROVIDERS || 'epic,cerner')
+  .split(',')
+  .map((id) => id.trim().toLowerCase())
+  .filter(Boolean);
+
+const registry = new Map<string, FhirProvider>();
+
+export function getProvider(id: string): FhirProvider | null {
+  const providerId = id.toLowerCase();
+  if (!ENABLED_PROVIDER_IDS.includes(providerId)) return null;
+
+  let provider = registry.get(providerId);
+  if (!provider) {
+    provider = loadProvider(providerId);
+    registry.set(providerId, provider);
+  }
+  return provider;
+}
+
+export function listProviders(): FhirProvider[] {
+  return ENABLED_PROVIDER_IDS.map((id) => getProvider(id)!);
+}
+
+export function isAllowedIssuer(provider: FhirProvider, iss: string) {
+  return provider.allowedIssuers.includes(normalizeBase(iss));
+}
+
+function loadProvider(id: string): FhirProvider {
+  const preset: ProviderPreset = PRESETS[id] ?? { displayName: id };
+  const env = (key: string) => process.env[`${id.toUpperCase().replace(/-/g, '_')}_${key}`];
+
+  const fhirBase = env('FHIR_BASE') || preset.fhirBase;
+  if (!fhirBase) {
+    throw new Error(`EHR provider "${id}" is enabled but has no FHIR base configured.`);
+  }
+
+  return {
+    id,
+    displayName: env('DISPLAY_NAME') || preset.displayName,
+    fhirBase: normalizeBase(fhirBase),
+    clientId: env('CLIENT_ID') || preset.clientId || '',
+    clientSecret: env('CLIENT_SECRET') || preset.clientSecret,
+    authorizationEndpoint: env('AUTHORIZATION_ENDPOINT') || preset.authorizationEndpoint,
+    tokenEndpoint: env('TOKEN_ENDPOINT') || preset.tokenEndpoint,
+    standaloneScopes: env('SCOPES') || preset.standaloneScopes || DEFAULT_STANDALONE_SCOPES,
+    ehrLaunchScopes: env('EHR_LAUNCH_SCOPES') || preset.ehrLaunchScopes || DEFAULT_EHR_LAUNCH_SCOPES,
+    allowedIssuers: (env('ALLOWED_ISS') || fhirBase).split(',').map(normalizeBase).filter(Boolean),
+    webRedirectUri:
+      env('WEB_REDIRECT_URI') || preset.webRedirectUri || `${APP_BASE_URL}/api/ehr/${id}/oauth/callback`,
+    iosRedirectUri: env('IOS_REDIRECT_URI') || preset.iosRedirectUri || `formfiller://${id}-oauth-callback`,
+    resourceQuirks: parseQuirks(env('RESOURCE_QUIRKS')) ?? preset.resourceQuirks ?? {},
+    paging: {
+      maxPages: parseInt(env('MAX_PAGES') || '') || preset.paging?.maxPages || DEFAULT_PAGING_LIMITS.maxPages,
+      maxEntries: parseInt(env('MAX_ENTRIES') || '') || preset.paging?.maxEntries || DEFAULT_PAGING_LIMITS.maxEntries,
+    },
+    observationCategories:
+      parseList(env('OBSERVATION_CATEGORIES')) ?? preset.observationCategories ?? DEFAULT_OBSERVATION_CATEGORIES,
+    extractPatientId,
+  };
+}
+
+// Comma-separated; undefined when nothing is listed, so a blank setting falls back
+function parseList(raw: string | undefined): string[] | undefined {
+  const items = (raw ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+// `<ID>_RESOURCE_QUIRKS` is JSON, e.g. {"Medication":{"skip":true}}
+function parseQuirks(raw: string | undefined): Record<string, ResourceQuirk> | undefined {
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    console.warn('⚠️ Ignoring unparseable resource quirks config:', raw);
+    return undefined;
+  }
+}
+
+function normalizeBase(url: string) {
+  return url.trim().replace(/\/+$/, '');
+}
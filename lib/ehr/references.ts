@@ -0,0 +1,111 @@
+import axios from 'axios';
+import { fetchAllEntries, PagingLimits } from '@/lib/ehr/paging';
+
+// -----------------------------------------------------------------------------
+// Reference resolution
+//
+// Patient-scoped searches return resources that point at others we haven't
+// pulled: a MedicationRequest's Medication, a panel Observation's members, a
+// DiagnosticReport's results, the Encounter behind any of them. Those targets are
+// collected during the sync and read in batches afterwards.
+// -----------------------------------------------------------------------------
+
+// Reference targets we resolve, and the table each lands in
+export const REFERENCED_RESOURCE_TABLES: Record<string, string> = {
+  Medication: 'medications',
+  Observation: 'observations',
+  Encounter: 'encounters',
+};
+
+const BATCH_SIZE = 50;
+
+export function collectReferences(resourceType: string, resource: any, fhirBase: string): string[] {
+  const refs: Array<string | undefined> = [resource?.encounter?.reference];
+
+  switch (resourceType) {
+    case 'MedicationRequest':
+      refs.push(resource?.medicationReference?.reference);
+      break;
+    case 'MedicationStatement':
+      refs.push(resource?.medicationReference?.reference, resource?.context?.reference);
+      break;
+    case 'Observation':
+      refs.push(...(resource?.hasMember ?? []).map((member: any) => member?.reference));
+      break;
+    case 'DiagnosticReport':
+      refs.push(...(resource?.result ?? []).map((result: any) => result?.reference));
+      break;
+  }
+
+  return refs
+    .map((ref) => (ref ? parseReference(ref, fhirBase) : null))
+    .filter((ref): ref is string => ref !== null && ref.split('/')[0] in REFERENCED_RESOURCE_TABLES);
+}
+
+// Normalizes a literal reference to `Type/id`. Contained (`#id`) references and
+// absolute URLs on other servers can't be read with this token and are dropped.
+export function parseReference(reference: string, fhirBase: string): string | null {
+  if (reference.startsWith('#')) return null;
+
+  let path = reference;
+  if (/^https?:\/\//.test(reference)) {
+    if (!reference.startsWith(`${fhirBase}/`)) return null;
+    path = reference.slice(fhirBase.length + 1);
+  }
+
+  const [type, id] = path.split('/');
+  if (!type || !id || !/^[A-Z][A-Za-z]+$/.test(type)) return null;
+  return `${type}/${id}`;
+}
+
+// Reads the given ids with `_id` searches in batches, falling back to one read per
+// id for servers that don't support searching the type (Epic's Medication, for one).
+export async function fetchReferencedResources(
+  fhirBase: string,
+  headers: Record<string, string>,
+  resourceType: string,
+  ids: string[],
+  paging: PagingLimits
+): Promise<{ entries: any[]; pages: number; unresolved: string[] }> {
+  const entries: any[] = [];
+  const found = new Set<string>();
+  let pages = 0;
+
+  for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+    const batch = ids.slice(i, i + BATCH_SIZE);
+    const url = `${fhirBase}/${resourceType}?_id=${batch.map(encodeURIComponent).join(',')}`;
+
+    try {
+      const paged = await fetchAllEntries(url, headers, paging);
+      pages += paged.pages;
+      for (const entry of paged.entries) {
+        if (entry.resource?.resourceType !== resourceType) continue;
+        found.add(entry.resource.id);
+        entries.push(entry);
+      }
+    } catch (error: any) {
+      console.warn(`⚠️ ${resourceType} _id search failed, reading individually:`, error.response?.status || error.message);
+      for (const id of batch) {
+        const entry = await readResource(fhirBase, headers, resourceType, id);
+        pages++;
+        if (entry) {
+          found.add(id);
+          entries.push(entry);
+        }
+      }
+    }
+  }
+
+  return { entries, pages, unresolved: ids.filter((id) => !found.has(id)) };
+}
+
+async function readResource(fhirBase: string, headers: Record<string, string>, resourceType: string, id: string) {
+  const url = `${fhirBase}/${resourceType}/${encodeURIComponent(id)}`;
+  try {
+    const response = await axios.get(url, { headers });
+    return { fullUrl: url, resource: response.data };
+  } catch (error: any) {
+    console.error(`❌ Failed to read ${resourceType}/${id}:`, error.response?.data || error.message);
+    return null;
+  }
+}
@@ -0,0 +1,114 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { requireSupabase } from '@/lib/supabase';
+
+// -----------------------------------------------------------------------------
+// SMART on FHIR discovery
+// -----------------------------------------------------------------------------
+export interface SmartConfiguration {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  capabilities?: string[];
+  code_challenge_methods_supported?: string[];
+  scopes_supported?: string[];
+}
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const discoveryCache = new Map<string, { config: SmartConfiguration; fetchedAt: number }>();
+
+export async function discoverSmartConfiguration(iss: string): Promise<SmartConfiguration> {
+  const base = iss.replace(/\/+$/, '');
+  const cached = discoveryCache.get(base);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) {
+    return cached.config;
+  }
+
+  const response = await axios.get(`${base}/.well-known/smart-configuration`, {
+    headers: { Accept: 'application/json' },
+  });
+  const config = response.data as SmartConfiguration;
+
+  if (!config?.authorization_endpoint || !config?.token_endpoint) {
+    throw new Error(`SMART configuration for ${base} is missing authorization or token endpoint`);
+  }
+
+  discoveryCache.set(base, { config, fetchedAt: Date.now() });
+  return config;
+}
+
+// -----------------------------------------------------------------------------
+// PKCE and state
+// -----------------------------------------------------------------------------
+export function generateCodeVerifier() {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+export function codeChallengeS256(codeVerifier: string) {
+  return crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+export function generateState() {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+// -----------------------------------------------------------------------------
+// Launch sessions
+//
+// One row per authorize request, keyed by `state`. The callback consumes the row
+// exactly once, so a code can't be replayed and the verifier never leaves the server.
+// -----------------------------------------------------------------------------
+export type LaunchClient = 'ios' | 'web';
+
+export interface LaunchSession {
+  state: string;
+  vendor: string;
+  user_id: string | null;
+  code_verifier: string;
+  redirect_uri: string;
+  iss: string;
+  token_endpoint: string;
+  launch: string | null;
+  client: LaunchClient;
+  expires_at: string;
+}
+
+const LAUNCH_SESSION_TTL_MS = 10 * 60 * 1000;
+
+export async function createLaunchSession(
+  session: Omit<LaunchSession, 'expires_at'>
+): Promise<LaunchSession> {
+  const row: LaunchSession = {
+    ...session,
+    expires_at: new Date(Date.now() + LAUNCH_SESSION_TTL_MS).toISOString(),
+  };
+
+  const { error } = await requireSupabase().from('smart_launch_sessions').insert(row);
+  if (error) {
+    throw new Error(`Failed to store launch session: ${error.message}`);
+  }
+
+  return row;
+}
+
+export async function consumeLaunchSession(state: string, vendor: string): Promise<LaunchSession | null> {
+  const now = new Date().toISOString();
+
+  // Conditional update doubles as the single-use check: only an unconsumed,
+  // unexpired row matches, and concurrent callbacks can't both win.
+  const { data, error } = await requireSupabase()
+    .from('smart_launch_sessions')
+    .update({ consumed_at: now })
+    .eq('state', state)
+    .eq('vendor', vendor)
+    .is('consumed_at', null)
+    .gt('expires_at', now)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Failed to consume launch session:', error);
+    return null;
+  }
+
+  return (data as LaunchSession | null) ?? null;
+}
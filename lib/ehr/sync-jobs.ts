@@ -0,0 +1,314 @@
+import { requireSupabase } from '@/lib/supabase';
+import { getProvider } from '@/lib/ehr/providers';
+import { fetchAndSavePatientResources, SyncResult } from '@/lib/ehr/sync';
+import { getConnection, getValidAccessToken } from '@/lib/ehr/token-vault';
+import { syncObservationsToHealthData } from '@/lib/ehr/health-data';
+
+// -----------------------------------------------------------------------------
+// Sync job queue
+//
+// The OAuth callback enqueues a row in `ehr_sync_jobs` and returns right away; the
+// worker claims queued rows, runs the FHIR sync with a token from the vault, and
+// records per-resource progress so the app can poll for it.
+// -----------------------------------------------------------------------------
+export type SyncJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface SyncJob {
+  id: string;
+  user_id: string;
+  vendor: string;
+  patient_fhir_id: string;
+  status: SyncJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  locked_at: string | null;
+  // Touched as each resource type finishes; a running job whose heartbeat stops is requeued
+  heartbeat_at: string | null;
+  progress: SyncResult;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 30 * 1000;
+// A running job with no heartbeat for this long belongs to a worker that died mid-sync
+const STALE_HEARTBEAT_MS = 15 * 60 * 1000;
+
+export async function enqueueSyncJob(userId: string, vendor: string, patientFhirId: string): Promise<SyncJob> {
+  const supabase = requireSupabase();
+
+  // Repeated logins shouldn't stack up duplicate work for the same connection. After a
+  // relink to another patient, pending work for the old one is no use.
+  const { data: existing } = await supabase
+    .from('ehr_sync_jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('vendor', vendor)
+    .eq('patient_fhir_id', patientFhirId)
+    .in('status', ['queued', 'running'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (existing) return existing as SyncJob;
+
+  const now = new Date().toISOString();
+  const { error: supersedeError } = await supabase
+    .from('ehr_sync_jobs')
+    .update({ status: 'failed', last_error: 'Superseded by a relink to another patient', updated_at: now, finished_at: now })
+    .eq('user_id', userId)
+    .eq('vendor', vendor)
+    .neq('patient_fhir_id', patientFhirId)
+    .eq('status', 'queued');
+
+  if (supersedeError) {
+    console.error('❌ Failed to cancel sync jobs for the previous patient:', supersedeError);
+  }
+
+  const { data, error } = await supabase
+    .from('ehr_sync_jobs')
+    .insert({
+      user_id: userId,
+      vendor,
+      patient_fhir_id: patientFhirId,
+      status: 'queued',
+      attempts: 0,
+      max_attempts: DEFAULT_MAX_ATTEMPTS,
+      run_after: now,
+      progress: {},
+      created_at: now,
+      updated_at: now,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to enqueue sync job: ${error?.message}`);
+  }
+
+  return data as SyncJob;
+}
+
+export async function getSyncJob(jobId: string): Promise<SyncJob | null> {
+  const { data, error } = await requireSupabase()
+    .from('ehr_sync_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Failed to load sync job:', error);
+    return null;
+  }
+
+  return (data as SyncJob | null) ?? null;
+}
+
+// Fails any queued work for the connection, e.g. once it has been unlinked.
+// A job already running finishes its current attempt.
+export async function cancelSyncJobs(userId: string, vendor: string, reason: string): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await requireSupabase()
+    .from('ehr_sync_jobs')
+    .update({ status: 'failed', last_error: reason, updated_at: now, finished_at: now })
+    .eq('user_id', userId)
+    .eq('vendor', vendor)
+    .eq('status', 'queued');
+
+  if (error) {
+    throw new Error(`Failed to cancel ${vendor} sync jobs: ${error.message}`);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Worker
+// -----------------------------------------------------------------------------
+export interface WorkerRunSummary {
+  claimed: number;
+  succeeded: number;
+  failed: number;
+  retried: number;
+}
+
+export async function runSyncWorker(options: { limit?: number; jobId?: string } = {}): Promise<WorkerRunSummary> {
+  const summary: WorkerRunSummary = { claimed: 0, succeeded: 0, failed: 0, retried: 0 };
+
+  await requeueStaleJobs();
+  const jobs = await claimJobs(options.limit ?? 5, options.jobId);
+  summary.claimed = jobs.length;
+
+  for (const job of jobs) {
+    const outcome = await processJob(job);
+    summary[outcome]++;
+  }
+
+  return summary;
+}
+
+async function claimJobs(limit: number, jobId?: string): Promise<SyncJob[]> {
+  const supabase = requireSupabase();
+  const now = new Date().toISOString();
+
+  let query = supabase
+    .from('ehr_sync_jobs')
+    .select('id')
+    .eq('status', 'queued')
+    .lte('run_after', now)
+    .order('run_after', { ascending: true })
+    .limit(limit);
+
+  if (jobId) {
+    query = query.eq('id', jobId);
+  }
+
+  const { data: candidates, error } = await query;
+  if (error) {
+    console.error('❌ Failed to list queued sync jobs:', error);
+    return [];
+  }
+
+  const claimed: SyncJob[] = [];
+  for (const { id } of candidates ?? []) {
+    // Conditional update is the lock: if another worker got here first, no row matches
+    const { data, error: claimError } = await supabase
+      .from('ehr_sync_jobs')
+      .update({ status: 'running', locked_at: now, heartbeat_at: now, updated_at: now })
+      .eq('id', id)
+      .eq('status', 'queued')
+      .select()
+      .maybeSingle();
+
+    if (claimError) {
+      console.error(`❌ Failed to claim sync job ${id}:`, claimError);
+    } else if (data) {
+      claimed.push(data as SyncJob);
+    }
+  }
+
+  return claimed;
+}
+
+async function requeueStaleJobs() {
+  const cutoff = new Date(Date.now() - STALE_HEARTBEAT_MS).toISOString();
+  const { error } = await requireSupabase()
+    .from('ehr_sync_jobs')
+    .update({ status: 'queued', locked_at: null, heartbeat_at: null, updated_at: new Date().toISOString() })
+    .eq('status', 'running')
+    .lt('heartbeat_at', cutoff);
+
+  if (error) {
+    console.error('❌ Failed to requeue stale sync jobs:', error);
+  }
+}
+
+async function processJob(job: SyncJob): Promise<'succeeded' | 'failed' | 'retried'> {
+  const supabase = requireSupabase();
+  const attempts = job.attempts + 1;
+  console.log(`🔄 Running sync job ${job.id} (${job.vendor}, attempt ${attempts}/${job.max_attempts})`);
+
+  try {
+    const provider = getProvider(job.vendor);
+    if (!provider) {
+      throw new Error(`EHR provider "${job.vendor}" is not enabled`);
+    }
+
+    const connection = await getConnection(job.user_id, job.vendor);
+    const accessToken = await getValidAccessToken(job.user_id, job.vendor);
+    if (!connection || !accessToken) {
+      throw new Error(`No stored ${job.vendor} connection for user ${job.user_id}`);
+    }
+
+    const progress: SyncResult = { ...job.progress };
+    const result = await fetchAndSavePatientResources(
+      provider,
+      connection.fhir_base,
+      { patient_fhir_id: job.patient_fhir_id },
+      accessToken,
+      async (resourceType, stats) => {
+        progress[resourceType] = stats;
+        const now = new Date().toISOString();
+        const { error } = await lockedJob(
+          supabase.from('ehr_sync_jobs').update({ progress, heartbeat_at: now, updated_at: now }),
+          job
+        );
+        if (error) {
+          console.error(`❌ Failed to record progress for sync job ${job.id}:`, error);
+        }
+      }
+    );
+
+    // Surface synced vitals and labs in the user's wellness timeline, even when another
+    // resource type failed and the job will be retried
+    await syncObservationsToHealthData(job.user_id, job.vendor, job.patient_fhir_id);
+
+    const failedTypes = Object.entries(result)
+      .filter(([, stats]) => stats.error)
+      .map(([type]) => type);
+    if (failedTypes.length > 0) {
+      throw new Error(`Sync failed for: ${failedTypes.join(', ')}`);
+    }
+
+    const now = new Date().toISOString();
+    const { error: completeError } = await lockedJob(
+      supabase.from('ehr_sync_jobs').update({
+        status: 'succeeded',
+        attempts,
+        progress: result,
+        last_error: null,
+        locked_at: null,
+        heartbeat_at: null,
+        updated_at: now,
+        finished_at: now,
+      }),
+      job
+    );
+    if (completeError) {
+      throw new Error(`Failed to mark sync job as succeeded: ${completeError.message}`);
+    }
+
+    console.log(`✅ Sync job ${job.id} succeeded`);
+    return 'succeeded';
+
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    const now = new Date();
+    const exhausted = attempts >= job.max_attempts;
+
+    // Exponential backoff: 30s, 1m, 2m, 4m, ...
+    const runAfter = new Date(now.getTime() + BACKOFF_BASE_MS * 2 ** (attempts - 1));
+
+    const { error: statusError } = await lockedJob(
+      supabase.from('ehr_sync_jobs').update({
+        status: exhausted ? 'failed' : 'queued',
+        attempts,
+        last_error: message,
+        locked_at: null,
+        heartbeat_at: null,
+        run_after: exhausted ? job.run_after : runAfter.toISOString(),
+        updated_at: now.toISOString(),
+        finished_at: exhausted ? now.toISOString() : null,
+      }),
+      job
+    );
+    // The job stays running until its heartbeat goes stale and it is requeued
+    if (statusError) {
+      console.error(`❌ Failed to record the outcome of sync job ${job.id}:`, statusError);
+    }
+
+    if (exhausted) {
+      console.error(`❌ Sync job ${job.id} failed permanently:`, message);
+      return 'failed';
+    }
+    console.warn(`⚠️ Sync job ${job.id} failed, retrying after ${runAfter.toISOString()}:`, message);
+    return 'retried';
+  }
+}
+
+// Scopes a write to the claim this worker holds. After a stale requeue another worker
+// owns the job, and this one's late writes match no row.
+function lockedJob<T extends { eq(column: string, value: string): T }>(query: T, job: SyncJob): T {
+  return query.eq('id', job.id).eq('status', 'running').eq('locked_at', job.locked_at!);
+}
@@ -0,0 +1,94 @@
+import { requireSupabase } from '@/lib/supabase';
+
+// -----------------------------------------------------------------------------
+// Sync cursors
+//
+// Last successful sync time per (vendor, patient, resource type). The next sync
+// only asks for resources with `_lastUpdated` after it.
+// -----------------------------------------------------------------------------
+export async function getSyncCursors(vendor: string, patientFhirId: string): Promise<Map<string, string>> {
+  const { data, error } = await requireSupabase()
+    .from('ehr_sync_state')
+    .select('resource_type, last_synced_at')
+    .eq('vendor', vendor)
+    .eq('patient_fhir_id', patientFhirId);
+
+  if (error) {
+    // Without cursors we fall back to a full pull, which is slower but correct
+    console.error('❌ Failed to load sync cursors:', error);
+    return new Map();
+  }
+
+  return new Map((data ?? []).map((row) => [row.resource_type as string, row.last_synced_at as string]));
+}
+
+export async function saveSyncCursor(
+  vendor: string,
+  patientFhirId: string,
+  resourceType: string,
+  lastSyncedAt: string
+): Promise<void> {
+  const { error } = await requireSupabase()
+    .from('ehr_sync_state')
+    .upsert(
+      {
+        vendor,
+        patient_fhir_id: patientFhirId,
+        resource_type: resourceType,
+        last_synced_at: lastSyncedAt,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'vendor,patient_fhir_id,resource_type' }
+    );
+
+  if (error) {
+    console.error(`❌ Failed to save sync cursor for ${resourceType}:`, error);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Projection cursors
+//
+// Latest Observation `synced_at` already projected into a user's health_data. Kept
+// apart from the fetch cursors: a fetch can succeed while the projection fails, and
+// Observations synced before the user linked still need projecting.
+// -----------------------------------------------------------------------------
+export async function getProjectionCursor(userId: string, vendor: string, patientFhirId: string): Promise<string | null> {
+  const { data, error } = await requireSupabase()
+    .from('ehr_projection_state')
+    .select('projected_through')
+    .eq('user_id', userId)
+    .eq('vendor', vendor)
+    .eq('patient_fhir_id', patientFhirId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load projection cursor: ${error.message}`);
+  }
+  return (data?.projected_through as string | undefined) ?? null;
+}
+
+export async function saveProjectionCursor(
+  userId: string,
+  vendor: string,
+  patientFhirId: string,
+  projectedThrough: string
+): Promise<void> {
+  const { error } = await requireSupabase()
+    .from('ehr_projection_state')
+    .upsert(
+      {
+        user_id: userId,
+        vendor,
+        patient_fhir_id: patientFhirId,
+        projected_through: projectedThrough,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id,vendor,patient_fhir_id' }
+    );
+
+  if (error) {
+    // The next run re-projects from the old cursor; upserts make that harmless
+    console.error('❌ Failed to save projection cursor:', error);
+  }
+}
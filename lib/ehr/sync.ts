@@ -0,0 +1,377 @@
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { requireSupabase } from '@/lib/supabase';
+import { fetchAllEntries, PagedEntries, PagingLimits } from '@/lib/ehr/paging';
+import { getSyncCursors, saveSyncCursor } from '@/lib/ehr/sync-state';
+import { normalizeResource } from '@/lib/ehr/normalize';
+import { collectReferences, fetchReferencedResources, REFERENCED_RESOURCE_TABLES } from '@/lib/ehr/references';
+import type { FhirProvider, ResourceQuirk } from '@/lib/ehr/providers';
+
+// -----------------------------------------------------------------------------
+// Clinical resources pulled for every connected patient, and where they land
+// -----------------------------------------------------------------------------
+// Medication isn't searchable by patient; it is resolved from medicationReference
+// (via `include` where the server supports it, otherwise by id afterwards).
+export const PATIENT_RESOURCE_TYPES: Array<{ type: string; table: string; include?: string }> = [
+  { type: 'MedicationRequest', table: 'medication_requests', include: 'MedicationRequest:medication' },
+  { type: 'MedicationStatement', table: 'medication_statements', include: 'MedicationStatement:medication' },
+  { type: 'Observation', table: 'observations' },
+  { type: 'DiagnosticReport', table: 'diagnostic_reports' },
+  { type: 'Procedure', table: 'procedures' },
+  { type: 'Goal', table: 'goals' },
+  { type: 'Condition', table: 'conditions' },
+  { type: 'CarePlan', table: 'careplans' },
+  { type: 'Immunization', table: 'immunizations' },
+];
+
+// Per-resource outcome of a sync, returned to callers so truncation is visible
+export interface ResourceSyncStats {
+  pages: number;
+  entries: number;
+  truncated: boolean;
+  // Sub-searches (e.g. Observation categories) that failed while others succeeded
+  failedCategories?: string[];
+  // `_lastUpdated` lower bound used, when this was an incremental pull
+  since?: string;
+  // Referenced ids the server couldn't return
+  unresolved?: number;
+  skipped?: boolean;
+  error?: string;
+}
+
+export type SyncResult = Record<string, ResourceSyncStats>;
+
+type FetchedEntries = PagedEntries & { failedCategories?: string[] };
+
+export type SyncProgressCallback = (resourceType: string, stats: ResourceSyncStats) => Promise<void> | void;
+
+// -----------------------------------------------------------------------------
+// Patient identity helpers
+// -----------------------------------------------------------------------------
+
+// SMART servers put the patient in the token response; fall back to id_token claims.
+export function extractPatientId(tokenData: Record<string, any>): string | undefined {
+  const fromToken = tokenData.patient || tokenData.patient_id;
+  if (fromToken) return String(fromToken);
+
+  if (tokenData.id_token) {
+    try {
+      const payload = JSON.parse(
+        Buffer.from(String(tokenData.id_token).split('.')[1], 'base64').toString('utf8')
+      );
+      const patientFhirId = payload.patient || payload.fhir_patient || payload.sub;
+      console.log('ℹ️ Extracted patient ID from id_token payload:', patientFhirId);
+      return patientFhirId;
+    } catch (e) {
+      console.warn('⚠️ Could not parse id_token for patient ID.', e);
+    }
+  }
+
+  return undefined;
+}
+
+export function patientDisplayName(patientResource: any) {
+  return (
+    patientResource?.name?.[0]?.text ||
+    [
+      patientResource?.name?.[0]?.given?.[0] ?? 'Unknown',
+      patientResource?.name?.[0]?.family ?? '',
+    ].join(' ').trim()
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Fetch and Save Resources for Patient
+// -----------------------------------------------------------------------------
+export async function fetchAndSavePatientResources(
+  provider: FhirProvider,
+  fhirBase: string,
+  patientData: any,
+  accessToken: string,
+  onProgress?: SyncProgressCallback
+): Promise<SyncResult> {
+  const result: SyncResult = {};
+  const headers = {
+    Authorization: `Bearer ${accessToken}`,
+    Accept: 'application/fhir+json',
+  };
+  const patientName = patientData.resource_data?.name?.[0]?.text || 'Unknown';
+  const cursors = await getSyncCursors(provider.id, patientData.patient_fhir_id);
+
+  // `Type/id` of everything stored this run, and references still to resolve
+  const stored = new Set<string>();
+  const pendingRefs = new Set<string>();
+  const includedEntries: any[] = [];
+
+  console.log(`🔍 Fetching ${provider.displayName} resources for patient: ${patientName} (${patientData.patient_fhir_id})`);
+
+  for (const { type, table, include } of PATIENT_RESOURCE_TYPES) {
+    const quirk = provider.resourceQuirks[type];
+    if (quirk?.skip) {
+      console.log(`⏭️ Skipping ${type}; not supported by ${provider.displayName}`);
+      result[type] = { pages: 0, entries: 0, truncated: false, skipped: true };
+      await onProgress?.(type, result[type]);
+      continue;
+    }
+
+    const since = quirk?.noLastUpdated ? undefined : cursors.get(type);
+    const startedAt = new Date().toISOString();
+    console.log(`🔄 Fetching ${type} for ${patientName}${since ? ` updated since ${since}` : ''}...`);
+
+    // IMPORTANT: Use patient search param to limit results to this patient
+    const data: FetchedEntries | null = type === 'Observation'
+      ? await fetchObservations(fhirBase, headers, patientData.patient_fhir_id, provider, since)
+      : await fetchResource(
+          fhirBase,
+          type,
+          headers,
+          patientData.patient_fhir_id,
+          include && !quirk?.noInclude ? { ...quirk, params: { _include: include, ...quirk?.params } } : quirk,
+          provider.paging,
+          since
+        );
+    if (!data) {
+      result[type] = { pages: 0, entries: 0, truncated: false, since, error: 'fetch_failed' };
+      await onProgress?.(type, result[type]);
+      continue;
+    }
+    // `_include`d targets come back in the same Bundle; set them aside for the reference pass
+    const entries = data.entries.filter((entry: any) => entry.resource?.resourceType === type);
+    includedEntries.push(...data.entries.filter((entry: any) => entry.resource?.resourceType !== type));
+
+    result[type] = { pages: data.pages, entries: entries.length, truncated: data.truncated, since };
+    if (data.failedCategories?.length) {
+      result[type].failedCategories = data.failedCategories;
+    }
+
+    console.log(`📦 ${entries.length} ${type} entries across ${data.pages} page(s) returned from ${provider.displayName} for ${patientName}`);
+    if (data.truncated) {
+      console.warn(`⚠️ ${type} hit the paging cap; older entries were not fetched.`);
+    }
+
+    if (entries.length > 0) {
+      const saved = await saveEntries(table, type, entries, patientData.patient_fhir_id, provider, startedAt);
+      if (!saved) {
+        result[type].error = 'save_failed';
+      } else {
+        console.log(`✅ Supabase upsert succeeded: ${entries.length} ${type} for ${patientName}`);
+      }
+      for (const entry of entries) {
+        stored.add(`${type}/${entry.resource.id}`);
+        collectReferences(type, entry.resource, fhirBase).forEach((ref) => pendingRefs.add(ref));
+      }
+    } else {
+      console.warn(`⚠️ No entries to upsert for ${type}. Table may remain empty.`);
+    }
+
+    // Only advance the cursor when everything up to now is stored; a truncated or
+    // failed pull must be retried from the old cursor or those resources are lost.
+    if (!data.truncated && !result[type].error && !data.failedCategories?.length) {
+      await saveSyncCursor(provider.id, patientData.patient_fhir_id, type, data.serverTime || startedAt);
+    }
+    await onProgress?.(type, result[type]);
+  }
+
+  await resolveReferences(fhirBase, headers, provider, patientData.patient_fhir_id, stored, pendingRefs, includedEntries, result, onProgress);
+
+  return result;
+}
+
+// -----------------------------------------------------------------------------
+// Store referenced resources (from `_include` or batched reads) alongside
+// -----------------------------------------------------------------------------
+async function resolveReferences(
+  fhirBase: string,
+  headers: Record<string, string>,
+  provider: FhirProvider,
+  patientFhirId: string,
+  stored: Set<string>,
+  pendingRefs: Set<string>,
+  includedEntries: any[],
+  result: SyncResult,
+  onProgress?: SyncProgressCallback
+) {
+  const syncedAt = new Date().toISOString();
+  const byType = new Map<string, { entries: any[]; pages: number; missing: string[] }>();
+
+  for (const entry of includedEntries) {
+    const type = entry.resource?.resourceType;
+    const key = `${type}/${entry.resource?.id}`;
+    if (!(type in REFERENCED_RESOURCE_TABLES) || stored.has(key)) continue;
+    stored.add(key);
+    if (!byType.has(type)) byType.set(type, { entries: [], pages: 0, missing: [] });
+    byType.get(type)!.entries.push(entry);
+  }
+
+  const outstanding = new Map<string, string[]>();
+  for (const ref of pendingRefs) {
+    if (stored.has(ref)) continue;
+    const [type, id] = ref.split('/');
+    outstanding.set(type, [...(outstanding.get(type) ?? []), id]);
+  }
+
+  for (const [type, ids] of outstanding) {
+    console.log(`🔗 Resolving ${ids.length} referenced ${type} resources...`);
+    const fetched = await fetchReferencedResources(fhirBase, headers, type, ids, provider.paging);
+    const bucket = byType.get(type) ?? { entries: [], pages: 0, missing: [] };
+    bucket.entries.push(...fetched.entries);
+    bucket.pages += fetched.pages;
+    bucket.missing.push(...fetched.unresolved);
+    byType.set(type, bucket);
+  }
+
+  for (const [type, { entries, pages, missing }] of byType) {
+    const key = `${type}:referenced`;
+    result[key] = { pages, entries: entries.length, truncated: false, unresolved: missing.length };
+    if (missing.length > 0) {
+      console.warn(`⚠️ Could not resolve ${missing.length} referenced ${type} resources.`);
+    }
+
+    if (entries.length > 0) {
+      const saved = await saveEntries(REFERENCED_RESOURCE_TABLES[type], type, entries, patientFhirId, provider, syncedAt);
+      if (!saved) {
+        result[key].error = 'save_failed';
+      } else {
+        console.log(`✅ Stored ${entries.length} referenced ${type} resources`);
+      }
+    }
+    await onProgress?.(key, result[key]);
+  }
+}
+
+async function saveEntries(
+  table: string,
+  resourceType: string,
+  entries: any[],
+  patientFhirId: string,
+  provider: FhirProvider,
+  syncedAt: string
+): Promise<boolean> {
+  const parsed = entries.map((item: any) => ({
+    id: item.resource.id || item.fullUrl || uuidv4(),
+    patient_fhir_id: patientFhirId,
+    vendor: provider.id,
+    resource_data: item.resource,
+    status: (item.resource as any).status || null,
+    last_updated: item.resource.meta?.lastUpdated || null,
+    synced_at: syncedAt,
+    ...normalizeResource(resourceType, item.resource),
+  }));
+
+  const { error } = await requireSupabase().from(table).upsert(parsed, { onConflict: 'id' });
+  if (error) {
+    console.error(`❌ Supabase upsert failed for ${resourceType}:`, error);
+    return false;
+  }
+  return true;
+}
+
+// -----------------------------------------------------------------------------
+// FHIR API: Fetch Patient resource by ID
+// -----------------------------------------------------------------------------
+export async function fetchPatient(fhirBase: string, patientId: string, accessToken: string) {
+  const url = `${fhirBase}/Patient/${encodeURIComponent(patientId)}`;
+  try {
+    const response = await axios.get(url, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: 'application/fhir+json',
+      },
+    });
+    return response.data;
+  } catch (error: any) {
+    console.error(`❌ Failed to fetch Patient/${patientId}:`, error.response?.data || error.message);
+    return null;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Generic resource fetch (filtered by patient when possible), all pages
+// -----------------------------------------------------------------------------
+async function fetchResource(
+  fhirBase: string,
+  resourceType: string,
+  headers: Record<string, string>,
+  patientId?: string,
+  quirk?: ResourceQuirk,
+  paging?: PagingLimits,
+  since?: string
+): Promise<PagedEntries | null> {
+  // Base
+  let url = `${fhirBase}/${resourceType}`;
+
+  // Attach patient search param if provided & supported
+  const params = new URLSearchParams();
+  if (patientId) params.set('patient', patientId);
+  for (const [key, value] of Object.entries(quirk?.params ?? {})) {
+    params.set(key, value);
+  }
+  if (since) params.set('_lastUpdated', `gt${since}`);
+  const qs = params.toString();
+  if (qs) url += `?${qs}`;
+
+  try {
+    const paged = await fetchAllEntries(url, headers, paging);
+    console.log(`✅ Fetched ${resourceType}: ${paged.entries.length} entries`);
+    return paged;
+  } catch (error: any) {
+    console.error(`❌ Failed to fetch ${resourceType}:`, error.response?.data || error.message);
+    return null;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Observations: one search per configured category, merged into one result
+// -----------------------------------------------------------------------------
+async function fetchObservations(
+  fhirBase: string,
+  headers: Record<string, string>,
+  patientId: string,
+  provider: FhirProvider,
+  since?: string
+): Promise<FetchedEntries | null> {
+  const quirk = provider.resourceQuirks.Observation;
+  const seen = new Set<string>();
+  const failedCategories: string[] = [];
+  const merged: FetchedEntries = { entries: [], pages: 0, truncated: false, failedCategories };
+
+  for (const category of provider.observationCategories) {
+    const data = await fetchResource(
+      fhirBase,
+      'Observation',
+      headers,
+      patientId,
+      { ...quirk, params: { ...quirk?.params, category } },
+      provider.paging,
+      since
+    );
+
+    if (!data) {
+      failedCategories.push(category);
+      continue;
+    }
+
+    console.log(`   - ${category}: ${data.entries.length} entries`);
+    merged.pages += data.pages;
+    merged.truncated = merged.truncated || data.truncated;
+    // Use the earliest server clock so the cursor never skips past a category's search
+    if (data.serverTime && (!merged.serverTime || data.serverTime < merged.serverTime)) {
+      merged.serverTime = data.serverTime;
+    }
+
+    // An Observation can carry several categories and come back from more than one search
+    for (const entry of data.entries) {
+      const key = entry.fullUrl || `Observation/${entry.resource?.id}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      merged.entries.push(entry);
+    }
+  }
+
+  // Only a total failure counts as a failed fetch; unsupported categories are reported
+  if (failedCategories.length === provider.observationCategories.length) {
+    return null;
+  }
+
+  return merged;
+}
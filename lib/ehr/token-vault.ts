@@ -0,0 +1,380 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { requireSupabase } from '@/lib/supabase';
+import { getProvider } from '@/lib/ehr/providers';
+
+// -----------------------------------------------------------------------------
+// Token vault
+//
+// Access and refresh tokens for each (user, vendor) connection, encrypted at rest
+// with AES-256-GCM. Callers ask for a valid access token and the vault refreshes
+// it first when it is about to expire. Tokens from a launch nobody was signed in
+// for are held against a one-time code until the app claims them for a user.
+// -----------------------------------------------------------------------------
+
+// Raw token endpoint response; only the fields we persist are typed.
+export interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  token_type?: string;
+  expires_in?: number;
+  scope?: string;
+  patient?: string;
+  id_token?: string;
+  [key: string]: unknown;
+}
+
+export interface StoredConnection {
+  user_id: string;
+  vendor: string;
+  patient_fhir_id: string | null;
+  fhir_base: string;
+  token_endpoint: string;
+  scopes: string[];
+  expires_at: string | null;
+}
+
+interface TokenRow extends StoredConnection {
+  access_token_enc: string;
+  refresh_token_enc: string | null;
+  token_type: string | null;
+  refresh_claimed_at: string | null;
+  updated_at: string;
+}
+
+// A connection waiting to be claimed by the user who signs in with its code.
+export interface PendingConnection {
+  vendor: string;
+  patient_fhir_id: string;
+  fhir_base: string;
+  token_endpoint: string;
+  patient_name: string | null;
+}
+
+// Refresh this long before the server-side expiry so in-flight requests don't race it.
+const REFRESH_SKEW_MS = 60 * 1000;
+
+// Only one caller refreshes a connection at a time, since rotating refresh tokens
+// are single use. A claim older than this belongs to a caller that died mid-refresh.
+const REFRESH_CLAIM_TTL_MS = 30 * 1000;
+// How long others wait for the claimant's new tokens before giving up
+const REFRESH_WAIT_MS = 250;
+const REFRESH_WAIT_ATTEMPTS = 60;
+
+const PENDING_CONNECTION_TTL_MS = 10 * 60 * 1000;
+
+// -----------------------------------------------------------------------------
+// Encryption
+// -----------------------------------------------------------------------------
+const CIPHER_VERSION = 'v1';
+
+function getEncryptionKey() {
+  const raw = process.env.EHR_TOKEN_ENCRYPTION_KEY;
+  if (!raw) {
+    throw new Error('EHR_TOKEN_ENCRYPTION_KEY is not set.');
+  }
+  const key = Buffer.from(raw, 'base64');
+  if (key.length !== 32) {
+    throw new Error('EHR_TOKEN_ENCRYPTION_KEY must be 32 bytes, base64 encoded.');
+  }
+  return key;
+}
+
+function encrypt(plaintext: string) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [CIPHER_VERSION, iv, tag, ciphertext]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+    .join(':');
+}
+
+function decrypt(payload: string) {
+  const [version, iv, tag, ciphertext] = payload.split(':');
+  if (version !== CIPHER_VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Unrecognized token ciphertext format.');
+  }
+  const decipher = crypto.createDecipheriv(
+    'aes-256-gcm',
+    getEncryptionKey(),
+    Buffer.from(iv, 'base64url')
+  );
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64url')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+// -----------------------------------------------------------------------------
+// Store
+// -----------------------------------------------------------------------------
+function expiresAtFrom(tokens: TokenResponse) {
+  return typeof tokens.expires_in === 'number'
+    ? new Date(Date.now() + tokens.expires_in * 1000).toISOString()
+    : null;
+}
+
+export async function saveTokens(
+  connection: Omit<StoredConnection, 'scopes' | 'expires_at'>,
+  tokens: TokenResponse
+): Promise<void> {
+  const row: Omit<TokenRow, 'refresh_token_enc'> & { refresh_token_enc?: string } = {
+    ...connection,
+    access_token_enc: encrypt(tokens.access_token),
+    token_type: tokens.token_type || null,
+    scopes: tokens.scope ? tokens.scope.split(/\s+/).filter(Boolean) : [],
+    expires_at: expiresAtFrom(tokens),
+    refresh_claimed_at: null,
+    updated_at: new Date().toISOString(),
+  };
+
+  // Servers that don't rotate refresh tokens omit them on refresh; keep the stored one.
+  if (tokens.refresh_token) {
+    row.refresh_token_enc = encrypt(tokens.refresh_token);
+  }
+
+  const { error } = await requireSupabase()
+    .from('ehr_tokens')
+    .upsert(row, { onConflict: 'user_id,vendor' });
+
+  if (error) {
+    throw new Error(`Failed to store ${connection.vendor} tokens: ${error.message}`);
+  }
+}
+
+export async function getConnection(userId: string, vendor: string): Promise<StoredConnection | null> {
+  const row = await loadRow(userId, vendor);
+  if (!row) return null;
+
+  const { user_id, patient_fhir_id, fhir_base, token_endpoint, scopes, expires_at } = row;
+  return { user_id, vendor, patient_fhir_id, fhir_base, token_endpoint, scopes, expires_at };
+}
+
+export async function deleteTokens(userId: string, vendor: string): Promise<void> {
+  const { error } = await requireSupabase()
+    .from('ehr_tokens')
+    .delete()
+    .eq('user_id', userId)
+    .eq('vendor', vendor);
+
+  if (error) {
+    throw new Error(`Failed to delete ${vendor} tokens: ${error.message}`);
+  }
+}
+
+// Returns an access token that is valid for at least REFRESH_SKEW_MS, refreshing
+// it first when needed. Null when the user has no connection for the vendor.
+export async function getValidAccessToken(userId: string, vendor: string): Promise<string | null> {
+  for (let attempt = 0; attempt < REFRESH_WAIT_ATTEMPTS; attempt++) {
+    const row = await loadRow(userId, vendor);
+    if (!row) return null;
+
+    // Without a known expiry the token may already have lapsed, so it is refreshed
+    // whenever there is a refresh token to do it with.
+    const expiresAt = row.expires_at ? new Date(row.expires_at).getTime() : null;
+    const fresh = expiresAt === null ? !row.refresh_token_enc : expiresAt - REFRESH_SKEW_MS > Date.now();
+    if (fresh) {
+      return decrypt(row.access_token_enc);
+    }
+
+    if (!row.refresh_token_enc) {
+      throw new Error(`${vendor} access token expired and no refresh token is stored; re-authentication required.`);
+    }
+
+    if (await claimRefresh(row)) {
+      return refreshRow(row);
+    }
+
+    // Someone else is spending the refresh token; their write is picked up on the next read.
+    await new Promise((resolve) => setTimeout(resolve, REFRESH_WAIT_MS));
+  }
+
+  throw new Error(`Timed out waiting for another ${vendor} token refresh for user ${userId}.`);
+}
+
+// Takes the refresh for the row's current refresh token. Fails when another caller
+// holds a live claim or has already replaced the token.
+async function claimRefresh(row: TokenRow): Promise<boolean> {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - REFRESH_CLAIM_TTL_MS).toISOString();
+
+  const { data, error } = await requireSupabase()
+    .from('ehr_tokens')
+    .update({ refresh_claimed_at: now.toISOString() })
+    .eq('user_id', row.user_id)
+    .eq('vendor', row.vendor)
+    .eq('refresh_token_enc', row.refresh_token_enc!)
+    .or(`refresh_claimed_at.is.null,refresh_claimed_at.lt."${staleBefore}"`)
+    .select('user_id')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to claim ${row.vendor} token refresh: ${error.message}`);
+  }
+  return data !== null;
+}
+
+async function refreshRow(row: TokenRow): Promise<string> {
+  console.log(`🔄 Refreshing ${row.vendor} access token for user ${row.user_id}`);
+
+  let refreshed: TokenResponse;
+  try {
+    refreshed = await refreshTokens(row);
+  } catch (error) {
+    await releaseRefreshClaim(row);
+    throw error;
+  }
+
+  // Some servers omit scope on refresh; the grant itself hasn't changed.
+  const scope = refreshed.scope ?? row.scopes.join(' ');
+  const update: Partial<TokenRow> = {
+    access_token_enc: encrypt(refreshed.access_token),
+    token_type: refreshed.token_type || row.token_type,
+    scopes: scope.split(/\s+/).filter(Boolean),
+    expires_at: expiresAtFrom(refreshed),
+    refresh_claimed_at: null,
+    updated_at: new Date().toISOString(),
+  };
+  // Servers that don't rotate refresh tokens omit them on refresh; keep the stored one.
+  if (refreshed.refresh_token) {
+    update.refresh_token_enc = encrypt(refreshed.refresh_token);
+  }
+
+  // Only replaces the tokens this refresh was based on, so a reconnect that landed
+  // meanwhile isn't overwritten with tokens for the old grant.
+  const { data, error } = await requireSupabase()
+    .from('ehr_tokens')
+    .update(update)
+    .eq('user_id', row.user_id)
+    .eq('vendor', row.vendor)
+    .eq('refresh_token_enc', row.refresh_token_enc!)
+    .select('user_id')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to store refreshed ${row.vendor} tokens: ${error.message}`);
+  }
+  if (!data) {
+    console.warn(`⚠️ ${row.vendor} tokens for user ${row.user_id} changed during refresh; keeping the newer ones`);
+  }
+
+  return refreshed.access_token;
+}
+
+async function releaseRefreshClaim(row: TokenRow) {
+  const { error } = await requireSupabase()
+    .from('ehr_tokens')
+    .update({ refresh_claimed_at: null })
+    .eq('user_id', row.user_id)
+    .eq('vendor', row.vendor)
+    .eq('refresh_token_enc', row.refresh_token_enc!);
+
+  if (error) {
+    console.error(`❌ Failed to release ${row.vendor} token refresh claim:`, error.message);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Pending connections
+// -----------------------------------------------------------------------------
+
+// Holds tokens from a launch with no signed-in user and returns the one-time code
+// the app exchanges for them after sign-in. Only a hash of the code is stored.
+export async function stashTokens(connection: PendingConnection, tokens: TokenResponse): Promise<string> {
+  const code = crypto.randomBytes(32).toString('base64url');
+  const now = Date.now();
+
+  const { error } = await requireSupabase()
+    .from('ehr_pending_tokens')
+    .insert({
+      ...connection,
+      code_hash: hashCode(code),
+      tokens_enc: encrypt(JSON.stringify(tokens)),
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + PENDING_CONNECTION_TTL_MS).toISOString(),
+    });
+
+  if (error) {
+    throw new Error(`Failed to hold ${connection.vendor} tokens for sign-in: ${error.message}`);
+  }
+  return code;
+}
+
+// Consumes a code from stashTokens. Null when it is unknown, expired or already used.
+export async function claimStashedTokens(
+  code: string
+): Promise<{ connection: PendingConnection; tokens: TokenResponse } | null> {
+  const now = new Date().toISOString();
+
+  // Conditional update doubles as the single-use check, as for launch sessions
+  const { data, error } = await requireSupabase()
+    .from('ehr_pending_tokens')
+    .update({ consumed_at: now })
+    .eq('code_hash', hashCode(code))
+    .is('consumed_at', null)
+    .gt('expires_at', now)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to claim pending EHR tokens: ${error.message}`);
+  }
+  if (!data) return null;
+
+  const { vendor, patient_fhir_id, fhir_base, token_endpoint, patient_name } = data;
+  const tokens = JSON.parse(decrypt(data.tokens_enc)) as TokenResponse;
+  // expires_in counts from the original exchange, not from now
+  if (typeof tokens.expires_in === 'number') {
+    const heldFor = Math.ceil((Date.now() - new Date(data.created_at).getTime()) / 1000);
+    tokens.expires_in = Math.max(0, tokens.expires_in - heldFor);
+  }
+
+  return { connection: { vendor, patient_fhir_id, fhir_base, token_endpoint, patient_name }, tokens };
+}
+
+function hashCode(code: string) {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+async function loadRow(userId: string, vendor: string): Promise<TokenRow | null> {
+  const { data, error } = await requireSupabase()
+    .from('ehr_tokens')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('vendor', vendor)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load ${vendor} tokens: ${error.message}`);
+  }
+
+  return (data as TokenRow | null) ?? null;
+}
+
+async function refreshTokens(row: TokenRow): Promise<TokenResponse> {
+  const provider = getProvider(row.vendor);
+  if (!provider) {
+    throw new Error(`EHR provider "${row.vendor}" is not enabled; cannot refresh its tokens.`);
+  }
+  const { clientId, clientSecret } = provider;
+  const params = new URLSearchParams({
+    grant_type: 'refresh_token',
+    refresh_token: decrypt(row.refresh_token_enc!),
+    client_id: clientId,
+  });
+  if (clientSecret) {
+    params.append('client_secret', clientSecret);
+  }
+
+  try {
+    const response = await axios.post(row.token_endpoint, params, {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    });
+    return response.data as TokenResponse;
+  } catch (error: any) {
+    console.error(`❌ ${row.vendor} token refresh failed:`, error.response?.data?.error || error.message);
+    throw new Error(`${row.vendor} token refresh failed; re-authentication required.`);
+  }
+}
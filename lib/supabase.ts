@@ -0,0 +1,40 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+
+const supabaseUrl = process.env.SUPABASE_URL
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+// Service-role client shared by server-side modules. Null when the environment
+// is not configured so routes can return a readable error instead of crashing on import.
+export const supabase = supabaseUrl && supabaseServiceKey
+  ? createClient(supabaseUrl, supabaseServiceKey)
+  : null
+
+export function requireSupabase(): SupabaseClient {
+  if (!supabase) {
+    throw new Error('Supabase not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.')
+  }
+  return supabase
+}
+
+// PostgREST caps every response at its max-rows setting (1,000 on Supabase by default)
+// and drops the rest without an error. Reads that can outgrow it go through here a page
+// at a time until a short page comes back; `page` must apply a stable order.
+const READ_PAGE_SIZE = 1000
+
+interface PageResult<T> {
+  data: T[] | null
+  error: { message: string } | null
+}
+
+export async function selectAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<PageResult<T>>
+): Promise<PageResult<T>> {
+  const rows: T[] = []
+  for (let from = 0; ; from += READ_PAGE_SIZE) {
+    const { data, error } = await page(from, from + READ_PAGE_SIZE - 1)
+    if (error) return { data: null, error }
+
+    rows.push(...(data ?? []))
+    if (!data || data.length < READ_PAGE_SIZE) return { data: rows, error: null }
+  }
+}
@@ -0,0 +1,261 @@
+import { requireSupabase, selectAllPages } from '@/lib/supabase'
+import { isCumulative, localDay, mean, quantile, shiftDay, standardDeviation } from '@/lib/wellness/statistics'
+import type { AnomalyFlag, AnomalySeverity, HealthDataType } from '@/lib/wellness/types'
+
+// =============================================
+// ANOMALY DETECTION
+// =============================================
+
+// Each new reading is compared with the user's own daily values over the previous
+// BASELINE_DAYS (z-score and IQR fences) and with the reference range for its type.
+// Readings are bucketed by UTC day: the client's zone isn't known when they're saved.
+const BASELINE_DAYS = 30
+// Fewer days than this and any spread estimate is noise
+const MIN_BASELINE_DAYS = 7
+const Z_INFO = 2
+const Z_WARNING = 3
+const IQR_INNER_FENCE = 1.5
+const IQR_OUTER_FENCE = 3
+
+const SEVERITIES: AnomalySeverity[] = ['info', 'warning', 'critical']
+
+interface ReferenceRange {
+  low?: number
+  high?: number
+  critical_low?: number
+  critical_high?: number
+}
+
+// Adult ranges in each type's stored unit (the first unit in DATA_TYPE_RULES).
+// Outside low/high is a warning, outside the critical bounds is critical.
+export const REFERENCE_RANGES: Partial<Record<HealthDataType, ReferenceRange>> = {
+  blood_pressure_systolic: { low: 90, high: 130, critical_low: 70, critical_high: 180 },
+  blood_pressure_diastolic: { low: 60, high: 80, critical_low: 40, critical_high: 120 },
+  heart_rate: { low: 50, high: 100, critical_low: 40, critical_high: 130 },
+  respiratory_rate: { low: 12, high: 20, critical_low: 8, critical_high: 30 },
+  body_temperature: { low: 97, high: 99.5, critical_low: 95, critical_high: 103 },
+  oxygen_saturation: { low: 95, critical_low: 90 },
+  glucose: { low: 70, high: 140, critical_low: 54, critical_high: 300 },
+  a1c: { high: 5.7, critical_high: 10 },
+  bmi: { low: 18.5, high: 25, critical_low: 16, critical_high: 40 },
+  cholesterol_total: { high: 200 },
+  cholesterol_hdl: { low: 40 },
+  cholesterol_ldl: { high: 130, critical_high: 190 },
+  triglycerides: { high: 150, critical_high: 500 }
+}
+
+// A health_data row, saved or about to be
+export interface ScoredReading {
+  id?: string
+  data_type: string
+  data: number | string
+  unit?: string | null
+  date: string
+  source?: string
+  source_resource_id?: string | null
+  reference_low?: number | null
+  reference_high?: number | null
+}
+
+// Scores readings against the user's stored history. Readings scored together also
+// count toward each other's baselines, so an import of past data is judged against
+// itself. An edited or re-synced row is never part of its own baseline.
+export async function scoreReadings(userId: string, readings: ScoredReading[]): Promise<AnomalyFlag[][]> {
+  if (readings.length === 0) return []
+
+  const readingDays = readings.map(reading => localDay(reading.date))
+  const sortedDays = [...readingDays].sort()
+
+  const { data, error } = await selectAllPages((from, to) => requireSupabase()
+    .from('health_data')
+    .select('id, data_type, data, unit, date, source, source_resource_id')
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .in('data_type', [...new Set(readings.map(reading => reading.data_type))])
+    .gte('date', shiftDay(sortedDays[0], -BASELINE_DAYS))
+    .lt('date', shiftDay(sortedDays[sortedDays.length - 1], 1))
+    .order('date', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to))
+
+  if (error) {
+    // Reference ranges still apply; a missing baseline shouldn't block saving the reading
+    console.error('❌ Failed to load anomaly baseline:', error.message)
+  }
+
+  const rescored = new Set(readings.flatMap(entryKeys))
+  const history = ((data ?? []) as ScoredReading[]).filter(row => !entryKeys(row).some(key => rescored.has(key)))
+
+  // data_type|day -> readings that day
+  const byDay = new Map<string, ScoredReading[]>()
+  const addToDay = (reading: ScoredReading, day: string) => {
+    const key = `${reading.data_type}|${day}`
+    const sameDay = byDay.get(key)
+    if (sameDay) sameDay.push(reading)
+    else byDay.set(key, [reading])
+  }
+  history.forEach(row => addToDay(row, localDay(row.date)))
+  readings.forEach((reading, i) => addToDay(reading, readingDays[i]))
+
+  const dayValue = (dataType: string, day: string, exclude: ScoredReading) => {
+    const values = (byDay.get(`${dataType}|${day}`) ?? [])
+      .filter(other => other !== exclude)
+      .map(other => Number(other.data))
+      .filter(Number.isFinite)
+    if (values.length === 0) return null
+    return isCumulative(dataType) ? values.reduce((sum, value) => sum + value, 0) : mean(values)
+  }
+
+  return readings.map((reading, i) => {
+    const value = Number(reading.data)
+    if (!Number.isFinite(value)) return []
+
+    const baseline: number[] = []
+    for (let offset = BASELINE_DAYS; offset >= 1; offset--) {
+      const past = dayValue(reading.data_type, shiftDay(readingDays[i], -offset), reading)
+      if (past !== null) baseline.push(past)
+    }
+
+    // Steps and the like are judged on the day's total so far, not the single entry
+    const sameDay = isCumulative(reading.data_type) ? dayValue(reading.data_type, readingDays[i], reading) : null
+    return detectAnomalies(reading, value, sameDay === null ? value : sameDay + value, baseline)
+  })
+}
+
+export function detectAnomalies(
+  reading: ScoredReading,
+  value: number,
+  dayValue: number,
+  baseline: number[]
+): AnomalyFlag[] {
+  return [referenceRangeFlag(reading, value), baselineFlag(reading, dayValue, baseline)]
+    .filter((flag): flag is AnomalyFlag => flag !== null)
+}
+
+export function highestSeverity(flags: AnomalyFlag[]): AnomalySeverity | null {
+  return flags.reduce<AnomalySeverity | null>(
+    (highest, flag) => highest && SEVERITIES.indexOf(highest) >= SEVERITIES.indexOf(flag.severity) ? highest : flag.severity,
+    null
+  )
+}
+
+// Severities at or above `min`, for filtering
+export function severitiesFrom(min: AnomalySeverity): AnomalySeverity[] {
+  return SEVERITIES.slice(SEVERITIES.indexOf(min))
+}
+
+// The health_data columns that store a reading's flags
+export function anomalyColumns(flags: AnomalyFlag[]) {
+  return { anomaly_flags: flags, anomaly_severity: highestSeverity(flags) }
+}
+
+function referenceRangeFlag(reading: ScoredReading, value: number): AnomalyFlag | null {
+  const defaults = REFERENCE_RANGES[reading.data_type as HealthDataType]
+  const label = dataTypeLabel(reading.data_type)
+  const unit = reading.unit ? ` ${reading.unit}` : ''
+
+  // The EHR's range (lab-specific) replaces the normal range, not the critical bounds
+  const fromEhr = reading.reference_low != null || reading.reference_high != null
+  const low = fromEhr ? reading.reference_low ?? null : defaults?.low ?? null
+  const high = fromEhr ? reading.reference_high ?? null : defaults?.high ?? null
+  const criticalLow = defaults?.critical_low ?? null
+  const criticalHigh = defaults?.critical_high ?? null
+
+  if (criticalLow !== null && value < criticalLow) {
+    return {
+      kind: 'reference_range',
+      severity: 'critical',
+      message: `${label} of ${format(value)}${unit} is critically low (below ${format(criticalLow)}${unit})`,
+      low: criticalLow,
+      high: criticalHigh,
+      rangeSource: 'default'
+    }
+  }
+  if (criticalHigh !== null && value > criticalHigh) {
+    return {
+      kind: 'reference_range',
+      severity: 'critical',
+      message: `${label} of ${format(value)}${unit} is critically high (above ${format(criticalHigh)}${unit})`,
+      low: criticalLow,
+      high: criticalHigh,
+      rangeSource: 'default'
+    }
+  }
+  if ((low !== null && value < low) || (high !== null && value > high)) {
+    return {
+      kind: 'reference_range',
+      severity: 'warning',
+      message: `${label} of ${format(value)}${unit} is ${low !== null && value < low ? 'below' : 'above'} the normal range (${rangeText(low, high)}${unit})`,
+      low,
+      high,
+      rangeSource: fromEhr ? 'ehr' : 'default'
+    }
+  }
+  return null
+}
+
+// Warning when the z-score or the outer IQR fence says so; info only when both the
+// z-score and the inner fence agree, so noisy metrics don't flag every other day
+function baselineFlag(reading: ScoredReading, value: number, baseline: number[]): AnomalyFlag | null {
+  if (baseline.length < MIN_BASELINE_DAYS) return null
+
+  const average = mean(baseline)
+  const deviation = standardDeviation(baseline)
+  const zScore = deviation ? (value - average) / deviation : null
+
+  const q1 = quantile(baseline, 0.25)
+  const q3 = quantile(baseline, 0.75)
+  const iqr = q3 - q1
+  // A flat baseline has no fences; any change at all would fall outside them
+  const outside = (fence: number) => iqr > 0 && (value < q1 - fence * iqr || value > q3 + fence * iqr)
+
+  const z = zScore === null ? 0 : Math.abs(zScore)
+  const severity: AnomalySeverity | null =
+    z >= Z_WARNING || outside(IQR_OUTER_FENCE) ? 'warning'
+      : z >= Z_INFO && outside(IQR_INNER_FENCE) ? 'info'
+        : null
+  if (!severity) return null
+
+  const unit = reading.unit ? ` ${reading.unit}` : ''
+  const subject = isCumulative(reading.data_type)
+    ? `${dataTypeLabel(reading.data_type)} for the day (${format(value)}${unit})`
+    : `${dataTypeLabel(reading.data_type)} of ${format(value)}${unit}`
+
+  return {
+    kind: 'baseline',
+    severity,
+    message: `${subject} is unusually ${value > average ? 'high' : 'low'} for you (${BASELINE_DAYS}-day average ${format(average)}${unit})`,
+    low: iqr > 0 ? round(q1 - IQR_INNER_FENCE * iqr) : null,
+    high: iqr > 0 ? round(q3 + IQR_INNER_FENCE * iqr) : null,
+    zScore: zScore === null ? null : round(zScore),
+    baselineMean: round(average),
+    baselineDays: baseline.length
+  }
+}
+
+// A stored row is matched by id; a synced reading that hasn't been upserted yet by its
+// source resource
+function entryKeys(reading: ScoredReading): string[] {
+  const keys: string[] = []
+  if (reading.id) keys.push(reading.id)
+  if (reading.source_resource_id) keys.push(`${reading.source}|${reading.source_resource_id}|${reading.data_type}`)
+  return keys
+}
+
+function dataTypeLabel(dataType: string) {
+  const words = dataType.replace(/_/g, ' ')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+function rangeText(low: number | null, high: number | null) {
+  if (low !== null && high !== null) return `${format(low)}-${format(high)}`
+  return low !== null ? `at least ${format(low)}` : `at most ${format(high!)}`
+}
+
+function format(value: number) {
+  return String(round(value))
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,173 @@
+import { requireSupabase, selectAllPages } from '@/lib/supabase'
+import { daysBetween, localDay, shiftDay } from '@/lib/wellness/statistics'
+import { bucketStart } from '@/lib/wellness/trends'
+import type {
+  DashboardConsistency,
+  GoalConsistency,
+  HealthGoalRecord,
+  LoggingConsistency,
+  StreakStats,
+  WeeklyAdherence
+} from '@/lib/wellness/types'
+
+// =============================================
+// LOGGING CONSISTENCY
+// =============================================
+
+// Streaks longer than this are reported as this long
+const CONSISTENCY_WINDOW_DAYS = 180
+const MISSED_DAYS_WINDOW = 30
+const ADHERENCE_WEEKS = 4
+
+// Streaks, missed days and weekly adherence, with every reading counted toward the day
+// it fell on in `timeZone`
+export async function getConsistency(
+  userId: string,
+  goals: HealthGoalRecord[],
+  timeZone: string,
+  now = new Date()
+): Promise<DashboardConsistency> {
+  const today = localDay(now, timeZone)
+  const windowStart = shiftDay(today, -(CONSISTENCY_WINDOW_DAYS - 1))
+
+  // A day either side so local days at the edges are complete in any zone
+  const { data, error } = await selectAllPages((from, to) => requireSupabase()
+    .from('health_data')
+    .select('data_type, date')
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .gte('date', shiftDay(windowStart, -1))
+    .lt('date', shiftDay(today, 2))
+    .order('date', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to))
+
+  if (error) {
+    throw new Error(`Failed to load readings for logging consistency: ${error.message}`)
+  }
+
+  const allDays = new Set<string>()
+  const daysByType = new Map<string, Set<string>>()
+  for (const row of data ?? []) {
+    const day = localDay(row.date, timeZone)
+    if (day < windowStart || day > today) continue
+
+    allDays.add(day)
+    const typeDays = daysByType.get(row.data_type) ?? new Set<string>()
+    typeDays.add(day)
+    daysByType.set(row.data_type, typeDays)
+  }
+
+  return {
+    timezone: timeZone,
+    windowDays: CONSISTENCY_WINDOW_DAYS,
+    overall: loggingConsistency(allDays, today, firstDay(allDays)),
+    dataTypes: [...daysByType.keys()].sort().map(dataType => ({
+      dataType,
+      ...loggingConsistency(daysByType.get(dataType)!, today, firstDay(daysByType.get(dataType)!))
+    })),
+    goals: goals
+      .filter(goal => goal.status === 'active' && goal.data_type)
+      .map(goal => goalConsistency(goal, daysByType.get(goal.data_type!) ?? new Set(), today, timeZone))
+  }
+}
+
+// Only days since the goal was created count toward it
+export function goalConsistency(
+  goal: HealthGoalRecord,
+  typeDays: Set<string>,
+  today: string,
+  timeZone: string
+): GoalConsistency {
+  const start = localDay(goal.created_at, timeZone)
+  const days = new Set([...typeDays].filter(day => day >= start))
+  const expectedDaysPerWeek = goal.expected_days_per_week
+  const weeks = weeklyAdherence(days, expectedDaysPerWeek, start, today)
+
+  return {
+    goalId: goal.id,
+    title: goal.title,
+    dataType: goal.data_type!,
+    expectedDaysPerWeek,
+    ...loggingConsistency(days, today, start),
+    weeklyAdherence: weeks,
+    adherence: weeks.length > 0
+      ? Math.round(weeks.reduce((sum, week) => sum + week.percent, 0) / weeks.length)
+      : null
+  }
+}
+
+export function loggingConsistency(days: Set<string>, today: string, trackingStart: string | null): LoggingConsistency {
+  return {
+    ...streakStats(days, today),
+    daysLogged: days.size,
+    missedDays: trackingStart ? missedDays(days, trackingStart, today) : []
+  }
+}
+
+export function streakStats(days: Set<string>, today: string): StreakStats {
+  // Today is still in progress: an unlogged today leaves yesterday's streak standing
+  let current = 0
+  for (let day = days.has(today) ? today : shiftDay(today, -1); days.has(day); day = shiftDay(day, -1)) {
+    current++
+  }
+
+  const sorted = [...days].sort()
+  let longest = 0
+  let run = 0
+  sorted.forEach((day, i) => {
+    run = i > 0 && daysBetween(sorted[i - 1], day) === 1 ? run + 1 : 1
+    longest = Math.max(longest, run)
+  })
+
+  return { current, longest, lastLoggedDay: sorted[sorted.length - 1] ?? null }
+}
+
+// Days before today, from trackingStart or the last MISSED_DAYS_WINDOW days, with no reading
+export function missedDays(days: Set<string>, trackingStart: string, today: string): string[] {
+  const windowStart = shiftDay(today, -MISSED_DAYS_WINDOW)
+  const missed: string[] = []
+  for (let day = trackingStart > windowStart ? trackingStart : windowStart; day < today; day = shiftDay(day, 1)) {
+    if (!days.has(day)) missed.push(day)
+  }
+  return missed
+}
+
+// Logged days against the expected count for each of the last few Monday-start weeks.
+// Weeks cut short by the start date or by today expect a prorated share; today only
+// counts once something has been logged.
+export function weeklyAdherence(
+  days: Set<string>,
+  expectedDaysPerWeek: number,
+  trackingStart: string,
+  today: string
+): WeeklyAdherence[] {
+  const lastCounted = days.has(today) ? today : shiftDay(today, -1)
+  const currentWeek = bucketStart(today, 'week')
+  const weeks: WeeklyAdherence[] = []
+
+  for (let i = ADHERENCE_WEEKS - 1; i >= 0; i--) {
+    const weekStart = shiftDay(currentWeek, -7 * i)
+    const weekEnd = shiftDay(weekStart, 6)
+    const first = weekStart > trackingStart ? weekStart : trackingStart
+    const last = weekEnd < lastCounted ? weekEnd : lastCounted
+    if (last < first) continue
+
+    const elapsed = daysBetween(first, last) + 1
+    const expectedDays = elapsed >= 7 ? expectedDaysPerWeek : Math.ceil((expectedDaysPerWeek * elapsed) / 7)
+    const daysLogged = [...days].filter(day => day >= first && day <= last).length
+
+    weeks.push({
+      weekStart,
+      daysLogged,
+      expectedDays,
+      percent: Math.round(Math.min(100, (daysLogged / expectedDays) * 100))
+    })
+  }
+
+  return weeks
+}
+
+function firstDay(days: Set<string>): string | null {
+  return [...days].sort()[0] ?? null
+}
@@ -0,0 +1,47 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import Ajv from 'ajv'
+import { createGenerator } from 'ts-json-schema-generator'
+import { describe, expect, it } from 'vitest'
+import { parseCreateGoal, parseLogHealthData } from '@/lib/wellness/schema'
+
+const ROOT = path.resolve(__dirname, '../..')
+const SCHEMA_PATH = path.join(ROOT, 'schemas/wellness.schema.json')
+
+// Same options as `npm run generate:schema`
+function generateSchema() {
+  return createGenerator({
+    path: path.join(ROOT, 'lib/wellness/types.ts'),
+    tsconfig: path.join(ROOT, 'tsconfig.json'),
+    type: '*',
+    skipTypeCheck: true
+  }).createSchema('*')
+}
+
+const committed = JSON.parse(readFileSync(SCHEMA_PATH, 'utf8'))
+const ajv = new Ajv({ strict: false, allErrors: true })
+ajv.addSchema(committed, 'wellness')
+
+// Validators drop absent optional fields as undefined; compare what goes over the wire
+function conforms(definition: string, value: unknown) {
+  const validate = ajv.getSchema(`wellness#/definitions/${definition}`)!
+  const valid = validate(JSON.parse(JSON.stringify(value)))
+  return valid ? true : validate.errors
+}
+
+describe('wellness contracts', () => {
+  it('ship a JSON Schema generated from the current types', () => {
+    // Run `npm run generate:schema` after changing lib/wellness/types.ts
+    expect(committed).toEqual(generateSchema())
+  }, 30_000)
+
+  it('match what the validators produce', () => {
+    const entry = parseLogHealthData({ dataType: 'weight', value: 180, unit: 'lbs', notes: 'Morning' })
+    expect(entry.value).toBeDefined()
+    expect(conforms('LogHealthDataRequest', entry.value)).toBe(true)
+
+    const goal = parseCreateGoal({ title: 'Walk more', dataType: 'steps', targetValue: 10000, direction: 'increase' })
+    expect(goal.value).toBeDefined()
+    expect(conforms('CreateGoalRequest', goal.value)).toBe(true)
+  })
+})
@@ -0,0 +1,33 @@
+import type { HealthDataSort } from '@/lib/wellness/types'
+
+// =============================================
+// HEALTH DATA PAGE CURSORS
+// =============================================
+
+// Opaque to clients: the (date, id) of the last row on a page plus the sort it was
+// taken under, so the next page continues strictly after it.
+export interface HealthDataCursor {
+  date: string
+  id: string
+  sort: HealthDataSort
+}
+
+// Both end up inside a PostgREST filter string, so accept nothing but their expected shapes
+const CURSOR_DATE = /^\d{4}-\d{2}-\d{2}[T ][\d:.]+(Z|[+-]\d{2}(:?\d{2})?)?$/
+const CURSOR_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export function encodeCursor(cursor: HealthDataCursor): string {
+  return Buffer.from(JSON.stringify([cursor.date, cursor.id, cursor.sort])).toString('base64url')
+}
+
+export function decodeCursor(value: string): HealthDataCursor | null {
+  try {
+    const [date, id, sort] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'))
+    if (typeof date !== 'string' || !CURSOR_DATE.test(date)) return null
+    if (typeof id !== 'string' || !CURSOR_ID.test(id)) return null
+    if (sort !== 'date_desc' && sort !== 'date_asc') return null
+    return { date, id, sort }
+  } catch {
+    return null
+  }
+}
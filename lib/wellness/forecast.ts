@@ -0,0 +1,158 @@
+import { requireSupabase, selectAllPages } from '@/lib/supabase'
+import { MAINTAIN_TOLERANCE } from '@/lib/wellness/goals'
+import { dailySeries, daysBetween, linearRegression, localDay, shiftDay } from '@/lib/wellness/statistics'
+import type {
+  GoalForecast,
+  GoalForecastStatus,
+  HealthGoalWithForecast,
+  HealthGoalWithProgress
+} from '@/lib/wellness/types'
+
+// =============================================
+// GOAL FORECASTING
+// =============================================
+
+// Only recent history is fitted, so an old plateau doesn't hide today's pace
+const FORECAST_WINDOW_DAYS = 90
+const MIN_FORECAST_DAYS = 5
+// Past this the projection says more about the fit than about the user
+const MAX_PROJECTION_DAYS = 3650
+// Reaching the target with at least this share of the remaining time to spare is ahead
+const AHEAD_MARGIN = 0.15
+// How far ahead a 'maintain' goal without a deadline has to hold
+const MAINTAIN_HORIZON_DAYS = 30
+
+// Attaches a forecast to each active goal with a target; other goals get null. Readings
+// count toward the day they fell on in `timeZone`.
+export async function withForecasts(
+  userId: string,
+  goals: HealthGoalWithProgress[],
+  timeZone = 'UTC',
+  now = new Date()
+): Promise<HealthGoalWithForecast[]> {
+  const forecastable = goals.filter(goal => goal.status === 'active' && goal.data_type && goal.target_value !== null)
+  if (forecastable.length === 0) {
+    return goals.map(goal => ({ ...goal, forecast: null }))
+  }
+
+  const today = localDay(now, timeZone)
+  const history = await loadDailyHistory(userId, forecastable.map(goal => goal.data_type!), today, timeZone)
+  return goals.map(goal => ({
+    ...goal,
+    forecast: forecastable.includes(goal) ? forecastGoal(goal, history.get(goal.data_type!) ?? [], today, timeZone) : null
+  }))
+}
+
+// One value per day in `timeZone` for each data type over the forecast window, oldest first
+export async function loadDailyHistory(
+  userId: string,
+  dataTypes: string[],
+  today = localDay(new Date()),
+  timeZone = 'UTC'
+): Promise<Map<string, Array<[string, number]>>> {
+  const types = [...new Set(dataTypes)]
+  const windowStart = shiftDay(today, -FORECAST_WINDOW_DAYS)
+  const { data, error } = await selectAllPages((from, to) => requireSupabase()
+    .from('health_data')
+    .select('data_type, data, date')
+    .eq('user_id', userId)
+    .in('data_type', types)
+    .is('deleted_at', null)
+    // A day early so the first local day is complete in any zone
+    .gte('date', shiftDay(windowStart, -1))
+    .order('date', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to))
+
+  if (error) {
+    throw new Error(`Failed to load readings for goal forecasts: ${error.message}`)
+  }
+
+  return new Map(types.map(type => [
+    type,
+    [...dailySeries(data ?? [], type, timeZone)]
+      .filter(([day]) => day >= windowStart)
+      .sort(([a], [b]) => a.localeCompare(b))
+  ]))
+}
+
+// Fits a line through the daily values and extends it to the target. The fitted value
+// today, not the last reading, is the starting point, so one odd day doesn't move the date.
+// `timeZone` must be the one `daily` and `today` were bucketed in.
+export function forecastGoal(
+  goal: HealthGoalWithProgress,
+  daily: Array<[string, number]>,
+  today: string,
+  timeZone = 'UTC'
+): GoalForecast {
+  const deadline = goal.deadline ? localDay(goal.deadline, timeZone) : null
+  const daysRemaining = deadline ? Math.max(0, daysBetween(today, deadline)) : null
+  const forecast: GoalForecast = {
+    status: 'insufficient_data',
+    slopePerDay: null,
+    projectedDate: null,
+    projectedRange: null,
+    projectedValueAtDeadline: null,
+    deadline,
+    daysRemaining,
+    sampleSize: daily.length
+  }
+
+  const direction = goal.direction ?? 'increase'
+  if (goal.progress?.achieved && direction !== 'maintain') return { ...forecast, status: 'achieved' }
+  if (daily.length < MIN_FORECAST_DAYS || goal.target_value === null) return forecast
+
+  const firstDay = daily[0][0]
+  const regression = linearRegression(daily.map(([day]) => daysBetween(firstDay, day)), daily.map(([, value]) => value))
+  if (!regression) return forecast
+
+  const target = Number(goal.target_value)
+  const fittedOn = (day: string) => regression.intercept + regression.slope * daysBetween(firstDay, day)
+  const fittedToday = fittedOn(today)
+  forecast.slopePerDay = round(regression.slope, 4)
+  forecast.projectedValueAtDeadline = deadline ? round(fittedOn(deadline)) : null
+
+  if (direction === 'maintain') {
+    const holds = (value: number) => Math.abs(value - target) <= Math.abs(target) * MAINTAIN_TOLERANCE
+    const horizon = deadline ?? shiftDay(today, MAINTAIN_HORIZON_DAYS)
+    return { ...forecast, status: holds(fittedToday) && holds(fittedOn(horizon)) ? 'on_track' : 'behind' }
+  }
+
+  const increasing = direction === 'increase'
+  const reachedByTrend = increasing ? fittedToday >= target : fittedToday <= target
+  const projectWith = (slope: number) => {
+    if (reachedByTrend) return today
+    const days = (target - fittedToday) / slope
+    // Heading away from the target, flat, or too far out to mean anything
+    if (!(days > 0) || days > MAX_PROJECTION_DAYS) return null
+    return shiftDay(today, Math.ceil(days))
+  }
+
+  forecast.projectedDate = projectWith(regression.slope)
+  const interval = regression.confidenceInterval
+  if (interval) {
+    const [lower, upper] = interval
+    forecast.projectedRange = {
+      earliest: projectWith(increasing ? upper : lower),
+      latest: projectWith(increasing ? lower : upper)
+    }
+  }
+
+  forecast.status = forecastStatus(today, forecast.projectedDate, daysRemaining)
+  return forecast
+}
+
+function forecastStatus(today: string, projectedDate: string | null, daysRemaining: number | null): GoalForecastStatus {
+  if (!projectedDate) return 'behind'
+  // Without a deadline, heading toward the target is all on track can mean
+  if (daysRemaining === null) return 'on_track'
+
+  const projectedDays = daysBetween(today, projectedDate)
+  if (projectedDays > daysRemaining) return 'behind'
+  return daysRemaining > 0 && projectedDays <= daysRemaining * (1 - AHEAD_MARGIN) ? 'ahead' : 'on_track'
+}
+
+function round(value: number, digits = 2) {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
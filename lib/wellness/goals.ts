@@ -0,0 +1,273 @@
+import { requireSupabase, selectAllPages } from '@/lib/supabase'
+import { applyDataTypeRule, parseGoalUpdate } from '@/lib/wellness/schema'
+import { dailySeries, isCumulative, localDay, shiftDay } from '@/lib/wellness/statistics'
+import type {
+  CreateGoalRequest,
+  FieldError,
+  GoalDirection,
+  GoalProgress,
+  GoalStatus,
+  HealthGoalRecord,
+  HealthGoalWithProgress
+} from '@/lib/wellness/types'
+
+// =============================================
+// HEALTH GOALS
+// =============================================
+
+// A 'maintain' reading counts as on target within this relative distance
+export const MAINTAIN_TOLERANCE = 0.05
+// How far back a default baseline looks for a day with readings
+const BASELINE_LOOKBACK_DAYS = 30
+
+export type GoalMutation =
+  | { status: 'updated'; goal: HealthGoalRecord }
+  | { status: 'not_found' }
+  | { status: 'invalid'; errors: FieldError[] }
+
+export async function listGoals(userId: string, status?: GoalStatus): Promise<HealthGoalRecord[]> {
+  let query = requireSupabase()
+    .from('health_goals')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  // Archived goals only show up when asked for
+  query = status ? query.eq('status', status) : query.neq('status', 'archived')
+
+  const { data, error } = await query
+  if (error) {
+    throw new Error(`Failed to list health goals: ${error.message}`)
+  }
+  return (data ?? []) as HealthGoalRecord[]
+}
+
+export async function getGoalRecord(userId: string, id: string): Promise<HealthGoalRecord | null> {
+  const { data, error } = await requireSupabase()
+    .from('health_goals')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load health goal: ${error.message}`)
+  }
+  return (data as HealthGoalRecord | null) ?? null
+}
+
+export async function createGoal(
+  userId: string,
+  request: CreateGoalRequest,
+  timeZone = 'UTC'
+): Promise<HealthGoalRecord> {
+  const supabase = requireSupabase()
+  const now = new Date().toISOString()
+
+  // Without an explicit baseline, progress starts from where the user is today
+  const baseline = request.baselineValue ?? await defaultBaseline(userId, request.dataType, timeZone, now)
+
+  const { data, error } = await supabase
+    .from('health_goals')
+    .insert({
+      user_id: userId,
+      title: request.title,
+      description: request.description ?? null,
+      status: 'active',
+      data_type: request.dataType,
+      target_value: request.targetValue,
+      unit: request.unit ?? null,
+      direction: request.direction,
+      baseline_value: baseline,
+      deadline: request.deadline ?? null,
+      expected_days_per_week: request.expectedDaysPerWeek ?? 7,
+      created_at: now,
+      updated_at: now
+    })
+    .select()
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to create health goal: ${error?.message}`)
+  }
+  return data as HealthGoalRecord
+}
+
+// The latest day's value on the same daily series progress is measured on. For
+// cumulative types today is still adding up, so the last complete day is used instead.
+async function defaultBaseline(userId: string, dataType: string, timeZone: string, now: string): Promise<number | null> {
+  const today = localDay(now, timeZone)
+  const { data, error } = await selectAllPages((from, to) => requireSupabase()
+    .from('health_data')
+    .select('data_type, data, date')
+    .eq('user_id', userId)
+    .eq('data_type', dataType)
+    .is('deleted_at', null)
+    // A day early so the first local day is complete in any zone
+    .gte('date', shiftDay(today, -(BASELINE_LOOKBACK_DAYS + 1)))
+    .lte('date', now)
+    .order('date', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to))
+
+  if (error) {
+    throw new Error(`Failed to load readings for goal baseline: ${error.message}`)
+  }
+
+  const lastDay = isCumulative(dataType) ? shiftDay(today, -1) : today
+  const days = [...dailySeries(data ?? [], dataType, timeZone)]
+    .filter(([day]) => day <= lastDay && day >= shiftDay(today, -BASELINE_LOOKBACK_DAYS))
+    .sort(([a], [b]) => a.localeCompare(b))
+  return days.length > 0 ? days[days.length - 1][1] : null
+}
+
+export async function updateGoal(userId: string, id: string, body: unknown): Promise<GoalMutation> {
+  const parsed = parseGoalUpdate(body)
+  if (parsed.errors) return { status: 'invalid', errors: parsed.errors }
+
+  const goal = await getGoalRecord(userId, id)
+  if (!goal) return { status: 'not_found' }
+
+  const update = parsed.value
+  const changes: Partial<HealthGoalRecord> = {}
+
+  if (update.title !== undefined) changes.title = update.title
+  if (update.description !== undefined) changes.description = update.description
+  if (update.direction !== undefined) changes.direction = update.direction
+  if (update.deadline !== undefined) changes.deadline = update.deadline
+  if (update.expectedDaysPerWeek !== undefined) changes.expected_days_per_week = update.expectedDaysPerWeek
+
+  // Targets are stored in the data type's unit, so a unit sent here describes the
+  // values in this request rather than replacing the goal's unit
+  const dataType = goal.data_type ?? ''
+  const unit = update.unit ?? goal.unit ?? undefined
+  if (update.targetValue !== undefined) {
+    const target = applyDataTypeRule(dataType, update.targetValue, unit, 'targetValue')
+    if (target.errors) return { status: 'invalid', errors: target.errors }
+    changes.target_value = target.value.value
+    changes.unit = target.value.unit ?? null
+  }
+  if (update.baselineValue !== undefined && update.baselineValue !== null) {
+    const baseline = applyDataTypeRule(dataType, update.baselineValue, unit, 'baselineValue')
+    if (baseline.errors) return { status: 'invalid', errors: baseline.errors }
+    changes.baseline_value = baseline.value.value
+  } else if (update.baselineValue === null) {
+    changes.baseline_value = null
+  }
+
+  if (update.status !== undefined && update.status !== goal.status) {
+    changes.status = update.status
+    changes.completed_at = update.status === 'completed' ? new Date().toISOString() : null
+  }
+
+  const { data, error } = await requireSupabase()
+    .from('health_goals')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to update health goal: ${error.message}`)
+  }
+  if (!data) return { status: 'not_found' }
+
+  return { status: 'updated', goal: data as HealthGoalRecord }
+}
+
+// =============================================
+// PROGRESS
+// =============================================
+
+interface Reading {
+  data_type: string
+  data: number
+  date: string
+}
+
+// Attaches progress to each goal from the user's readings since the goal was created,
+// one value per day in `timeZone` as in forecasts
+export async function withProgress(
+  userId: string,
+  goals: HealthGoalRecord[],
+  timeZone = 'UTC'
+): Promise<HealthGoalWithProgress[]> {
+  const measurable = goals.filter(goal => goal.data_type && goal.target_value !== null)
+  if (measurable.length === 0) {
+    return goals.map(goal => ({ ...goal, progress: null }))
+  }
+
+  const since = measurable.map(goal => goal.created_at).sort()[0]
+  const { data, error } = await selectAllPages((from, to) => requireSupabase()
+    .from('health_data')
+    .select('data_type, data, date')
+    .eq('user_id', userId)
+    .in('data_type', [...new Set(measurable.map(goal => goal.data_type!))])
+    .is('deleted_at', null)
+    .gte('date', since)
+    .order('date', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to))
+
+  if (error) {
+    throw new Error(`Failed to load readings for goal progress: ${error.message}`)
+  }
+
+  const readings = (data ?? []) as Reading[]
+  return goals.map(goal => ({
+    ...goal,
+    progress: computeGoalProgress(
+      goal,
+      readings.filter(reading =>
+        reading.data_type === goal.data_type && Date.parse(reading.date) >= Date.parse(goal.created_at)
+      ),
+      timeZone
+    )
+  }))
+}
+
+// Readings must be sorted oldest first. Progress is measured on the same daily series
+// as forecasts: a day's total for cumulative types (several walks make one day's
+// steps), the day's mean otherwise.
+export function computeGoalProgress(goal: HealthGoalRecord, readings: Reading[], timeZone = 'UTC'): GoalProgress | null {
+  if (!goal.data_type || goal.target_value === null) return null
+
+  const target = Number(goal.target_value)
+  const values = [...dailySeries(readings, goal.data_type, timeZone)]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, value]) => value)
+  const current = values.length > 0 ? values[values.length - 1] : null
+  const baseline = goal.baseline_value !== null ? Number(goal.baseline_value) : values[0] ?? null
+  const direction = goal.direction ?? 'increase'
+
+  let percent = 0
+  let achieved = false
+
+  if (direction === 'maintain') {
+    percent = values.length > 0 ? (values.filter(value => meetsTarget(direction, value, target)).length / values.length) * 100 : 0
+    achieved = current !== null && meetsTarget(direction, current, target)
+  } else if (current !== null) {
+    achieved = meetsTarget(direction, current, target)
+    // Distance covered from baseline toward the target, in the goal's direction
+    const span = direction === 'increase' ? target - (baseline ?? current) : (baseline ?? current) - target
+    const covered = direction === 'increase' ? current - (baseline ?? current) : (baseline ?? current) - current
+    percent = achieved ? 100 : span > 0 ? (covered / span) * 100 : 0
+  }
+
+  return {
+    current,
+    baseline,
+    target,
+    percent: Math.round(Math.min(100, Math.max(0, percent))),
+    achieved,
+    dataPoints: readings.filter(reading => Number.isFinite(Number(reading.data))).length,
+    lastRecordedAt: readings.length > 0 ? readings[readings.length - 1].date : null
+  }
+}
+
+// Whether one day's value reaches the target in the goal's direction
+export function meetsTarget(direction: GoalDirection, value: number, target: number) {
+  if (direction === 'maintain') return Math.abs(value - target) <= Math.abs(target) * MAINTAIN_TOLERANCE
+  return direction === 'increase' ? value >= target : value <= target
+}
@@ -0,0 +1,394 @@
+import { requireSupabase } from '@/lib/supabase'
+import { anomalyColumns, scoreReadings } from '@/lib/wellness/anomalies'
+import { parseHealthDataEdit, parseHealthDataUpdate, parseLogHealthData } from '@/lib/wellness/schema'
+import type {
+  AnomalyFlag,
+  BatchItemResult,
+  BatchSummary,
+  FieldError,
+  HealthDataAuditEntry,
+  HealthDataRecord,
+  LogHealthDataRequest
+} from '@/lib/wellness/types'
+
+// =============================================
+// HEALTH DATA WRITES
+// =============================================
+
+// Postgres unique_violation, raised when a concurrent request stored the same key
+const UNIQUE_VIOLATION = '23505'
+const KEY_LOOKUP_CHUNK = 100
+
+export interface SavedEntry extends BatchItemResult {
+  record?: HealthDataRecord
+}
+
+function toRow(userId: string, entry: LogHealthDataRequest, flags: AnomalyFlag[] = []) {
+  return {
+    user_id: userId,
+    data_type: entry.dataType,
+    data: entry.value,  // Map 'value' to 'data' column
+    unit: entry.unit || null,
+    notes: entry.notes || null,
+    goal_id: entry.goalId || null,
+    date: entry.timestamp || new Date().toISOString(),
+    source: 'manual',
+    idempotency_key: entry.idempotencyKey || null,
+    tags: [],
+    is_private: false,
+    ...anomalyColumns(flags)
+  }
+}
+
+// Validates raw entries, then saves the valid ones. Entries whose idempotencyKey is
+// already stored (or repeated earlier in the same batch) with the same reading come
+// back as duplicates pointing at the existing row; a different reading under a used
+// key is a conflict. Keys of soft-deleted rows stay used, so a late retry can't bring
+// back an entry the user deleted. New entries are scored for anomalies, and flagged
+// ones carry their flags in the result. With dryRun nothing is written.
+export async function saveHealthDataEntries(
+  userId: string,
+  rawEntries: unknown[],
+  options: { dryRun?: boolean } = {}
+): Promise<SavedEntry[]> {
+  const supabase = requireSupabase()
+  const results: SavedEntry[] = []
+  const valid: Array<{ index: number; entry: LogHealthDataRequest }> = []
+
+  rawEntries.forEach((raw, index) => {
+    const parsed = parseLogHealthData(raw)
+    if (parsed.errors) {
+      results[index] = { index, status: 'invalid', errors: parsed.errors }
+    } else {
+      valid.push({ index, entry: parsed.value })
+    }
+  })
+
+  const existing = await findByIdempotencyKeys(
+    userId,
+    valid.map(({ entry }) => entry.idempotencyKey).filter((key): key is string => !!key)
+  )
+
+  const seenKeys = new Map<string, number>()
+  const entriesByIndex = new Map(valid.map(({ index, entry }) => [index, entry]))
+  const toInsert: Array<{ index: number; entry: LogHealthDataRequest }> = []
+  for (const item of valid) {
+    const key = item.entry.idempotencyKey
+    const stored = key ? existing.get(key) : undefined
+    if (stored) {
+      results[item.index] = matchStored(item.index, item.entry, stored)
+    } else if (key && seenKeys.has(key)) {
+      const first = entriesByIndex.get(seenKeys.get(key)!)!
+      results[item.index] = sameReading(toRow(userId, first), item.entry)
+        ? { index: item.index, status: 'duplicate' }
+        : keyConflict(item.index, 'was already used for a different entry earlier in this batch')
+    } else {
+      if (key) seenKeys.set(key, item.index)
+      toInsert.push(item)
+    }
+  }
+
+  const flags = await scoreReadings(userId, toInsert.map(({ entry }) => toRow(userId, entry)))
+
+  if (options.dryRun) {
+    toInsert.forEach(({ index }, i) => {
+      results[index] = { index, status: 'valid', ...anomaliesField(flags[i]) }
+    })
+    return results
+  }
+
+  if (toInsert.length > 0) {
+    const { data, error } = await supabase
+      .from('health_data')
+      .insert(toInsert.map(({ entry }, i) => toRow(userId, entry, flags[i])))
+      .select()
+
+    if (!error && data && data.length === toInsert.length) {
+      toInsert.forEach(({ index }, i) => {
+        const record = data[i] as HealthDataRecord
+        results[index] = { index, status: 'created', id: record.id, record, ...anomaliesField(flags[i]) }
+      })
+    } else {
+      // One bad row fails the whole multi-row insert; retry row by row so the
+      // rest of the batch still lands and each failure is reported on its own
+      console.warn('⚠️ Batch insert failed, retrying entries individually:', error?.message)
+      for (const [i, item] of toInsert.entries()) {
+        results[item.index] = await insertOne(userId, item.index, item.entry, flags[i])
+      }
+    }
+  }
+
+  // Later copies of a key inside the batch point at whatever the first copy became
+  for (const result of results) {
+    if (result.status === 'duplicate' && !result.id) {
+      const key = (rawEntries[result.index] as LogHealthDataRequest).idempotencyKey!
+      const first = results[seenKeys.get(key)!]
+      result.id = first?.id
+      result.record = first?.record
+    }
+  }
+
+  return results
+}
+
+async function insertOne(
+  userId: string,
+  index: number,
+  entry: LogHealthDataRequest,
+  flags: AnomalyFlag[]
+): Promise<SavedEntry> {
+  const { data, error } = await requireSupabase()
+    .from('health_data')
+    .insert(toRow(userId, entry, flags))
+    .select()
+    .single()
+
+  if (error?.code === UNIQUE_VIOLATION && entry.idempotencyKey) {
+    const stored = (await findByIdempotencyKeys(userId, [entry.idempotencyKey])).get(entry.idempotencyKey)
+    return stored ? matchStored(index, entry, stored) : { index, status: 'duplicate' }
+  }
+
+  if (error || !data) {
+    console.error('❌ Failed to save health data entry:', error?.message)
+    return { index, status: 'failed', errors: [{ field: 'entry', message: error?.message || 'Insert failed' }] }
+  }
+
+  return { index, status: 'created', id: data.id, record: data as HealthDataRecord, ...anomaliesField(flags) }
+}
+
+// A retry of the stored entry is a duplicate; anything else under its key is a conflict
+function matchStored(index: number, entry: LogHealthDataRequest, stored: HealthDataRecord): SavedEntry {
+  if (stored.deleted_at) {
+    return keyConflict(index, 'belongs to an entry that was deleted; send a new key to log it again')
+  }
+  if (!sameReading(stored, entry)) {
+    return keyConflict(index, 'was already used for a different entry')
+  }
+  return { index, status: 'duplicate', id: stored.id, record: stored }
+}
+
+// Compares what the entry would store. An entry without a timestamp is stamped when
+// saved, so any stored date matches it.
+function sameReading(
+  stored: Pick<HealthDataRecord, 'data_type' | 'data' | 'unit' | 'notes' | 'goal_id' | 'date'>,
+  entry: LogHealthDataRequest
+) {
+  return stored.data_type === entry.dataType
+    && Number(stored.data) === entry.value
+    && (stored.unit || null) === (entry.unit || null)
+    && (stored.notes || null) === (entry.notes || null)
+    && (stored.goal_id || null) === (entry.goalId || null)
+    && (!entry.timestamp || Date.parse(stored.date) === Date.parse(entry.timestamp))
+}
+
+function keyConflict(index: number, message: string): SavedEntry {
+  return { index, status: 'conflict', errors: [{ field: 'idempotencyKey', message }] }
+}
+
+// Results only mention anomalies for entries that have some
+function anomaliesField(flags: AnomalyFlag[]): { anomalies?: AnomalyFlag[] } {
+  return flags.length > 0 ? { anomalies: flags } : {}
+}
+
+async function findByIdempotencyKeys(userId: string, keys: string[]) {
+  const found = new Map<string, HealthDataRecord>()
+  if (keys.length === 0) return found
+
+  // Keys travel in the query string, so look them up in chunks
+  const unique = [...new Set(keys)]
+  for (let i = 0; i < unique.length; i += KEY_LOOKUP_CHUNK) {
+    const { data, error } = await requireSupabase()
+      .from('health_data')
+      .select('*')
+      .eq('user_id', userId)
+      .in('idempotency_key', unique.slice(i, i + KEY_LOOKUP_CHUNK))
+
+    if (error) {
+      throw new Error(`Failed to look up idempotency keys: ${error.message}`)
+    }
+
+    for (const row of data ?? []) {
+      found.set(row.idempotency_key, row as HealthDataRecord)
+    }
+  }
+  return found
+}
+
+export function summarizeResults(results: BatchItemResult[]): BatchSummary {
+  const count = (status: BatchItemResult['status']) => results.filter(result => result.status === status).length
+  return {
+    total: results.length,
+    created: count('created'),
+    valid: count('valid'),
+    duplicates: count('duplicate'),
+    conflicts: count('conflict'),
+    invalid: count('invalid'),
+    failed: count('failed')
+  }
+}
+
+// Drops the full row from each result; batch responses only carry ids
+export function toBatchResults(results: SavedEntry[]): BatchItemResult[] {
+  return results.map(({ index, line, status, id, errors, anomalies }) => ({ index, line, status, id, errors, anomalies }))
+}
+
+// =============================================
+// EDITS AND SOFT DELETE
+// =============================================
+
+export type EntryMutation =
+  | { status: 'updated'; record: HealthDataRecord }
+  | { status: 'deleted'; record: HealthDataRecord }
+  | { status: 'not_found' }
+  // Synced EHR readings are owned by the sync and would be overwritten
+  | { status: 'read_only' }
+  | { status: 'invalid'; errors: FieldError[] }
+
+// Columns an edit can touch, and so the ones captured in the audit trail
+const AUDITED_COLUMNS = ['data_type', 'data', 'unit', 'notes', 'goal_id', 'date'] as const
+
+// The user's entry, unless it doesn't exist, belongs to someone else or was deleted
+export async function getLiveEntry(userId: string, id: string): Promise<HealthDataRecord | null> {
+  const { data, error } = await requireSupabase()
+    .from('health_data')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load health data entry: ${error.message}`)
+  }
+  return (data as HealthDataRecord | null) ?? null
+}
+
+export async function getEntryHistory(userId: string, id: string): Promise<HealthDataAuditEntry[]> {
+  const { data, error } = await requireSupabase()
+    .from('health_data_audit')
+    .select('*')
+    .eq('health_data_id', id)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load health data history: ${error.message}`)
+  }
+  return (data ?? []) as HealthDataAuditEntry[]
+}
+
+export async function updateHealthDataEntry(
+  userId: string,
+  id: string,
+  body: unknown
+): Promise<Exclude<EntryMutation, { status: 'deleted' }>> {
+  const update = parseHealthDataUpdate(body)
+  if (update.errors) return { status: 'invalid', errors: update.errors }
+
+  const existing = await getLiveEntry(userId, id)
+  if (!existing) return { status: 'not_found' }
+  if (existing.source !== 'manual') return { status: 'read_only' }
+
+  const edit = parseHealthDataEdit(
+    { dataType: existing.data_type, value: Number(existing.data), unit: existing.unit },
+    update.value
+  )
+  if (edit.errors) return { status: 'invalid', errors: edit.errors }
+
+  const changes = edit.value
+  const next = {
+    data_type: changes.dataType ?? existing.data_type,
+    data: changes.value ?? Number(existing.data),
+    unit: changes.unit !== undefined ? changes.unit : existing.unit,
+    notes: changes.notes !== undefined ? changes.notes : existing.notes,
+    goal_id: changes.goalId !== undefined ? changes.goalId : existing.goal_id,
+    date: changes.timestamp ?? existing.date
+  }
+
+  const previous: Partial<HealthDataRecord> = {}
+  const changed: Partial<HealthDataRecord> = {}
+  for (const column of AUDITED_COLUMNS) {
+    const before = column === 'data' ? Number(existing.data) : existing[column]
+    const after = next[column]
+    if (column === 'date' ? Date.parse(String(before)) !== Date.parse(String(after)) : before !== after) {
+      Object.assign(previous, { [column]: existing[column] })
+      Object.assign(changed, { [column]: after })
+    }
+  }
+
+  if (Object.keys(changed).length === 0) {
+    return { status: 'updated', record: existing }
+  }
+
+  // The old flags were for the old reading
+  const rescore = (['data_type', 'data', 'unit', 'date'] as const).some(column => column in changed)
+  const [flags] = rescore ? await scoreReadings(userId, [{ id, ...next }]) : []
+
+  const { data, error } = await requireSupabase()
+    .from('health_data')
+    .update({ ...changed, ...(flags && anomalyColumns(flags)), updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to update health data entry: ${error.message}`)
+  }
+  // Deleted by a concurrent request
+  if (!data) return { status: 'not_found' }
+
+  await recordAudit(userId, id, 'update', previous, changed)
+  return { status: 'updated', record: data as HealthDataRecord }
+}
+
+// Hides the entry from every read; the row and its history stay for the audit trail.
+// Synced EHR readings can be deleted too, and the sync won't bring them back.
+export async function deleteHealthDataEntry(
+  userId: string,
+  id: string
+): Promise<Extract<EntryMutation, { status: 'deleted' | 'not_found' }>> {
+  const existing = await getLiveEntry(userId, id)
+  if (!existing) return { status: 'not_found' }
+
+  const now = new Date().toISOString()
+  const { data, error } = await requireSupabase()
+    .from('health_data')
+    .update({ deleted_at: now, updated_at: now })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to delete health data entry: ${error.message}`)
+  }
+  if (!data) return { status: 'not_found' }
+
+  const previous: Partial<HealthDataRecord> = {}
+  for (const column of AUDITED_COLUMNS) {
+    Object.assign(previous, { [column]: existing[column] })
+  }
+  await recordAudit(userId, id, 'delete', previous, {})
+
+  return { status: 'deleted', record: data as HealthDataRecord }
+}
+
+async function recordAudit(
+  userId: string,
+  healthDataId: string,
+  action: HealthDataAuditEntry['action'],
+  previous: Partial<HealthDataRecord>,
+  changes: Partial<HealthDataRecord>
+) {
+  const { error } = await requireSupabase()
+    .from('health_data_audit')
+    .insert({ health_data_id: healthDataId, user_id: userId, action, previous, changes })
+
+  if (error) {
+    // The edit itself already succeeded; losing its audit row shouldn't fail the request
+    console.error(`❌ Failed to record health data ${action} audit for ${healthDataId}:`, error.message)
+  }
+}
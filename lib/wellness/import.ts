@@ -0,0 +1,171 @@
+import { createHash } from 'crypto'
+import { MAX_BATCH_ENTRIES, type ParseResult } from '@/lib/wellness/schema'
+import type { ImportFormat } from '@/lib/wellness/types'
+
+// =============================================
+// CSV / JSON IMPORT PARSING
+// =============================================
+
+export const MAX_IMPORT_BYTES = 2 * 1024 * 1024
+
+export interface ImportedEntries {
+  entries: unknown[]
+  // CSV line of each entry, for error messages
+  lines?: number[]
+}
+
+// CSV headers are matched case-insensitively and may use the column names too
+const CSV_COLUMNS: Record<string, string> = {
+  datatype: 'dataType',
+  data_type: 'dataType',
+  value: 'value',
+  data: 'value',
+  unit: 'unit',
+  notes: 'notes',
+  goalid: 'goalId',
+  goal_id: 'goalId',
+  timestamp: 'timestamp',
+  date: 'timestamp',
+  idempotencykey: 'idempotencyKey',
+  idempotency_key: 'idempotencyKey'
+}
+
+export function detectImportFormat(contentType: string | null, fileName?: string): ImportFormat | null {
+  const name = fileName?.toLowerCase() ?? ''
+  const type = contentType?.toLowerCase() ?? ''
+  if (name.endsWith('.csv') || type.includes('text/csv')) return 'csv'
+  if (name.endsWith('.json') || type.includes('application/json')) return 'json'
+  return null
+}
+
+export function parseImport(text: string, format: ImportFormat): ParseResult<ImportedEntries> {
+  const parsed = format === 'csv' ? parseCsvEntries(text) : parseJsonEntries(text)
+  if (parsed.errors) return parsed
+
+  if (parsed.value.entries.length === 0) {
+    return { errors: [{ field: 'file', message: 'contains no entries' }] }
+  }
+  if (parsed.value.entries.length > MAX_BATCH_ENTRIES) {
+    return { errors: [{ field: 'file', message: `must contain at most ${MAX_BATCH_ENTRIES} entries` }] }
+  }
+
+  for (const entry of parsed.value.entries) {
+    if (typeof entry === 'object' && entry !== null && !Array.isArray(entry)) {
+      const record = entry as Record<string, unknown>
+      record.idempotencyKey ??= importKey(record)
+    }
+  }
+  return parsed
+}
+
+// Re-importing the same export shouldn't duplicate it, so rows without their own key
+// get one derived from their content. Rows without a timestamp can't be told apart
+// from a genuine repeat reading and are left without one.
+function importKey(entry: Record<string, unknown>): string | undefined {
+  if (!entry.timestamp) return undefined
+  const content = [entry.dataType, entry.value, entry.unit ?? '', entry.timestamp].join('|')
+  return `import:${createHash('sha256').update(content).digest('hex').slice(0, 32)}`
+}
+
+function parseJsonEntries(text: string): ParseResult<ImportedEntries> {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    return { errors: [{ field: 'file', message: 'is not valid JSON' }] }
+  }
+
+  // Either a bare array or the same { entries } envelope the batch endpoint takes
+  const entries = Array.isArray(json) ? json : (json as { entries?: unknown })?.entries
+  if (!Array.isArray(entries)) {
+    return { errors: [{ field: 'file', message: 'must be a JSON array of entries or { "entries": [...] }' }] }
+  }
+
+  return { value: { entries } }
+}
+
+function parseCsvEntries(text: string): ParseResult<ImportedEntries> {
+  const rows = parseCsv(text)
+  const headerRow = rows.shift()
+  if (!headerRow) {
+    return { errors: [{ field: 'file', message: 'is empty' }] }
+  }
+
+  const header = headerRow.cells.map(cell => CSV_COLUMNS[cell.trim().toLowerCase()])
+  const unknown = headerRow.cells.filter((_, i) => !header[i])
+  if (unknown.length > 0) {
+    return { errors: [{ field: 'file', message: `has unknown columns: ${unknown.join(', ')}` }] }
+  }
+  if (!header.includes('dataType') || !header.includes('value')) {
+    return { errors: [{ field: 'file', message: 'needs dataType and value columns' }] }
+  }
+
+  const entries: Record<string, unknown>[] = []
+  const lines: number[] = []
+  for (const row of rows) {
+    if (row.cells.every(cell => cell.trim() === '')) continue
+
+    const entry: Record<string, unknown> = {}
+    header.forEach((field, i) => {
+      const cell = row.cells[i]?.trim()
+      if (!cell) return
+      // Non-numeric values stay strings so validation reports them
+      entry[field] = field === 'value' && cell !== '' && !Number.isNaN(Number(cell)) ? Number(cell) : cell
+    })
+    entries.push(entry)
+    lines.push(row.line)
+  }
+
+  return { value: { entries, lines } }
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and "" escapes
+function parseCsv(text: string): Array<{ line: number; cells: string[] }> {
+  const rows: Array<{ line: number; cells: string[] }> = []
+  let cells: string[] = []
+  let cell = ''
+  let inQuotes = false
+  let line = 1
+  let rowLine = 1
+
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        if (char === '\n') line++
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      cells.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      cells.push(cell)
+      rows.push({ line: rowLine, cells })
+      cells = []
+      cell = ''
+      line++
+      rowLine = line
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || cells.length > 0) {
+    cells.push(cell)
+    rows.push({ line: rowLine, cells })
+  }
+  return rows
+}
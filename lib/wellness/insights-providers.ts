@@ -0,0 +1,132 @@
+import OpenAI from 'openai'
+import { createChatInsightsProvider } from '@/lib/wellness/llm-insights'
+import { ruleBasedInsightsProvider } from '@/lib/wellness/rule-insights'
+import type { GoalDirection, Insights, InsightsSource, Recommendation } from '@/lib/wellness/types'
+
+// =============================================
+// INSIGHTS PROVIDERS
+// =============================================
+
+// Whatever produces insights sits behind this interface, so the insights route never
+// knows which vendor (or none) is answering. `INSIGHTS_PROVIDER` picks one:
+//   openai             OpenAI, with INSIGHTS_API_KEY or OPENAI_API_KEY
+//   openai-compatible  any server speaking the chat completions API (Ollama, vLLM,
+//                      LM Studio, ...) at INSIGHTS_BASE_URL
+//   rules              deterministic rules over the data summary; no network
+// Without it, openai is used when OPENAI_API_KEY is set and rules otherwise.
+// INSIGHTS_TEMPERATURE (0-2) is sent to either chat provider when set; leave it unset
+// for reasoning models, which only accept their default.
+export interface InsightsProvider {
+  id: string
+  source: Exclude<InsightsSource, 'fallback'>
+  // Reported with the results; null for providers that aren't a model
+  model: string | null
+  // Null (or a throw) when nothing usable came back; the caller falls back
+  generateInsights(request: InsightsRequest): Promise<Insights | null>
+  generateRecommendations(request: InsightsRequest): Promise<Recommendation[] | null>
+}
+
+export interface InsightsRequest {
+  summary: DataSummary
+  days: number
+}
+
+export interface MetricSummary {
+  count: number
+  unit: string | null
+  average: number
+  min: number | null
+  max: number | null
+  // Oldest and newest readings in the period
+  first: number | null
+  latest: number | null
+  daysLogged: number
+  trend: 'increasing' | 'decreasing' | 'stable' | 'insufficient_data'
+}
+
+// Goal figures are per day, like goal progress: a day's total for cumulative types
+// (several walks make one day's steps), the day's mean otherwise
+export interface GoalSummary {
+  dataType: string
+  target: number
+  direction: GoalDirection
+  unit: string | null
+  // The latest day's value. For cumulative types a today still short of the target
+  // is still adding up, so the day before stands instead.
+  current: number | null
+  currentDay: string | null
+  daysLogged: number
+  daysOnTarget: number
+}
+
+// What providers get to work from: per-data-type statistics, never raw rows
+export interface DataSummary {
+  totalEntries: number
+  dataTypes: number
+  periodDays: number
+  goalTitle: string
+  goal: GoalSummary | null
+  dateRange: { start: string | null; end: string | null }
+  metrics: Record<string, MetricSummary>
+}
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini'
+
+let provider: InsightsProvider | null = null
+
+export function getInsightsProvider(): InsightsProvider {
+  provider ??= loadInsightsProvider(
+    (process.env.INSIGHTS_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'rules')).trim().toLowerCase()
+  )
+  return provider
+}
+
+function loadInsightsProvider(id: string): InsightsProvider {
+  switch (id) {
+    case 'openai': {
+      const apiKey = process.env.INSIGHTS_API_KEY || process.env.OPENAI_API_KEY
+      if (!apiKey) {
+        throw new Error('Insights provider "openai" needs INSIGHTS_API_KEY or OPENAI_API_KEY.')
+      }
+      return createChatInsightsProvider({
+        id,
+        client: new OpenAI({ apiKey }),
+        // Must support structured outputs (the json_schema response format)
+        model: process.env.INSIGHTS_MODEL || DEFAULT_OPENAI_MODEL,
+        responseFormat: 'json_schema',
+        temperature: configuredTemperature()
+      })
+    }
+    case 'openai-compatible': {
+      const baseURL = process.env.INSIGHTS_BASE_URL
+      const model = process.env.INSIGHTS_MODEL
+      if (!baseURL || !model) {
+        throw new Error('Insights provider "openai-compatible" needs INSIGHTS_BASE_URL and INSIGHTS_MODEL.')
+      }
+      return createChatInsightsProvider({
+        id,
+        // Local servers usually ignore the key, but the client won't start without one
+        client: new OpenAI({ baseURL, apiKey: process.env.INSIGHTS_API_KEY || 'not-needed' }),
+        model,
+        // Many local servers only support plain JSON mode; the schema then goes in the prompt
+        responseFormat: process.env.INSIGHTS_RESPONSE_FORMAT === 'json_schema' ? 'json_schema' : 'json_object',
+        temperature: configuredTemperature()
+      })
+    }
+    case 'rules':
+      return ruleBasedInsightsProvider
+    default:
+      throw new Error(`Unknown insights provider "${id}". Use openai, openai-compatible or rules.`)
+  }
+}
+
+function configuredTemperature(): number | undefined {
+  const raw = process.env.INSIGHTS_TEMPERATURE?.trim()
+  if (!raw) return undefined
+
+  const temperature = Number(raw)
+  if (!Number.isFinite(temperature) || temperature < 0 || temperature > 2) {
+    throw new Error(`INSIGHTS_TEMPERATURE must be a number from 0 to 2, got "${raw}".`)
+  }
+  return temperature
+}
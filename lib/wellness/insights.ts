@@ -0,0 +1,159 @@
+import { meetsTarget } from '@/lib/wellness/goals'
+import {
+  getInsightsProvider,
+  type DataSummary,
+  type GoalSummary,
+  type InsightsProvider,
+  type InsightsRequest
+} from '@/lib/wellness/insights-providers'
+import { dailySeries, isCumulative, localDay } from '@/lib/wellness/statistics'
+import { dailyTrend } from '@/lib/wellness/trends'
+import type { HealthGoalRecord, Insights, InsightsSource, Recommendation } from '@/lib/wellness/types'
+
+// =============================================
+// INSIGHTS
+// =============================================
+
+export interface InsightsResult<T> {
+  value: T
+  source: InsightsSource
+  model: string | null
+}
+
+export async function generateAIInsights(
+  healthData: any[],
+  goal: HealthGoalRecord | null,
+  days: number
+): Promise<InsightsResult<Insights>> {
+  return generateWith(
+    { summary: prepareDataSummary(healthData, goal, days), days },
+    (provider, request) => provider.generateInsights(request),
+    FALLBACK_INSIGHTS
+  )
+}
+
+export async function generateRecommendations(
+  healthData: any[],
+  goal: HealthGoalRecord | null,
+  days: number
+): Promise<InsightsResult<Recommendation[]>> {
+  return generateWith(
+    { summary: prepareDataSummary(healthData, goal, days), days },
+    (provider, request) => provider.generateRecommendations(request),
+    FALLBACK_RECOMMENDATIONS
+  )
+}
+
+// Provider failures, including misconfiguration, end in the generic fallback content
+// rather than an error; the response's source says which one the client got
+async function generateWith<T>(
+  request: InsightsRequest,
+  generate: (provider: InsightsProvider, request: InsightsRequest) => Promise<T | null>,
+  fallback: T
+): Promise<InsightsResult<T>> {
+  try {
+    const provider = getInsightsProvider()
+    const value = await generate(provider, request)
+    if (value) return { value, source: provider.source, model: provider.model }
+    console.warn(`⚠️ Insights provider "${provider.id}" returned nothing usable; using fallback content`)
+  } catch (error) {
+    console.error('❌ Insights provider error:', error)
+  }
+
+  return { value: fallback, source: 'fallback', model: null }
+}
+
+// =============================================
+// DATA SUMMARY AND FALLBACKS
+// =============================================
+
+// healthData is ordered newest first
+export function prepareDataSummary(healthData: any[], goal: HealthGoalRecord | null, days: number): DataSummary {
+  const dataTypes = [...new Set<string>(healthData.map(item => item.data_type))].sort()
+  const summary: DataSummary = {
+    totalEntries: healthData.length,
+    dataTypes: dataTypes.length,
+    periodDays: days,
+    goalTitle: goal ? goal.title : 'General wellness',
+    goal: goal?.data_type && goal.target_value !== null ? summarizeGoal(healthData, goal) : null,
+    dateRange: {
+      start: healthData.length > 0 ? healthData[healthData.length - 1].date : null,
+      end: healthData.length > 0 ? healthData[0].date : null
+    },
+    metrics: {}
+  }
+
+  // Add summary for each data type
+  dataTypes.forEach(type => {
+    const typeData = healthData.filter(item => item.data_type === type)
+    const values = typeData.map(item => Number(item.data)).filter(val => !isNaN(val))
+
+    summary.metrics[type] = {
+      count: typeData.length,
+      unit: typeData.find(item => item.unit)?.unit ?? null,
+      average: values.length > 0 ? values.reduce((sum, val) => sum + val, 0) / values.length : 0,
+      min: values.length > 0 ? Math.min(...values) : null,
+      max: values.length > 0 ? Math.max(...values) : null,
+      first: values.length > 0 ? values[values.length - 1] : null,
+      latest: values.length > 0 ? values[0] : null,
+      daysLogged: new Set(typeData.map(item => localDay(item.date))).size,
+      trend: dailyTrend(typeData, type)
+    }
+  })
+
+  return summary
+}
+
+function summarizeGoal(healthData: any[], goal: HealthGoalRecord): GoalSummary {
+  const dataType = goal.data_type!
+  const target = Number(goal.target_value)
+  const direction = goal.direction ?? 'maintain'
+  const daily = [...dailySeries(healthData, dataType)].sort(([a], [b]) => a.localeCompare(b))
+
+  let latest = daily[daily.length - 1]
+  if (
+    latest && daily.length > 1 && isCumulative(dataType) &&
+    latest[0] === localDay(new Date()) && !meetsTarget(direction, latest[1], target)
+  ) {
+    latest = daily[daily.length - 2]
+  }
+
+  return {
+    dataType,
+    target,
+    direction,
+    unit: goal.unit,
+    current: latest ? latest[1] : null,
+    currentDay: latest ? latest[0] : null,
+    daysLogged: daily.length,
+    daysOnTarget: daily.filter(([, value]) => meetsTarget(direction, value, target)).length
+  }
+}
+
+const FALLBACK_RECOMMENDATIONS: Recommendation[] = [
+  {
+    title: 'Continue Data Collection',
+    description: 'Keep logging your health data consistently to build better insights',
+    priority: 'high',
+    evidence: []
+  },
+  {
+    title: 'Set Specific Goals',
+    description: 'Define clear, measurable health goals to track progress',
+    priority: 'medium',
+    evidence: []
+  },
+  {
+    title: 'Review Weekly Patterns',
+    description: 'Check your data weekly to identify trends and make adjustments',
+    priority: 'medium',
+    evidence: []
+  }
+]
+
+const FALLBACK_INSIGHTS: Insights = {
+  patterns: ['Data collection is active', 'Regular monitoring in progress'],
+  improvements: ['Continue consistent data logging', 'Consider adding more data types'],
+  progress: ['Successfully tracking health metrics', 'Building health data history'],
+  recommendations: FALLBACK_RECOMMENDATIONS
+}
@@ -0,0 +1,123 @@
+import type OpenAI from 'openai'
+import { describe, expect, it, vi } from 'vitest'
+import type { DataSummary } from '@/lib/wellness/insights-providers'
+import { createChatInsightsProvider, parseInsights, parseRecommendations } from '@/lib/wellness/llm-insights'
+
+const RECOMMENDATION = {
+  title: 'Walk After Lunch',
+  description: 'A 15 minute walk after lunch adds about 2,000 steps',
+  priority: 'high',
+  evidence: [{ dataType: 'steps', observation: 'Averaging 6,500 steps against a target of 10,000' }]
+}
+
+const INSIGHTS = {
+  patterns: ['Steps have held steady'],
+  improvements: ['Log heart rate more often'],
+  progress: ['Consistent steps logging'],
+  recommendations: [RECOMMENDATION]
+}
+
+const SUMMARY: DataSummary = {
+  totalEntries: 0,
+  dataTypes: 0,
+  periodDays: 7,
+  goalTitle: 'General wellness',
+  goal: null,
+  dateRange: { start: null, end: null },
+  metrics: {}
+}
+
+describe('parseInsights', () => {
+  it('accepts well-formed output', () => {
+    expect(parseInsights(INSIGHTS)).toEqual({ value: INSIGHTS })
+  })
+
+  it('rejects output that is not an object', () => {
+    expect(parseInsights([INSIGHTS]).errors).toEqual([{ field: 'response', message: 'must be a JSON object' }])
+  })
+
+  it('reports each bad field', () => {
+    const { errors } = parseInsights({
+      ...INSIGHTS,
+      patterns: 'Steps have held steady',
+      progress: ['  '],
+      recommendations: [{ ...RECOMMENDATION, priority: 'urgent', evidence: [{ observation: 'no data type' }] }]
+    })
+
+    expect(errors?.map(error => error.field)).toEqual([
+      'patterns',
+      'progress[0]',
+      'recommendations[0].priority',
+      'recommendations[0].evidence[0]'
+    ])
+  })
+
+  it('rejects lists longer than the cap', () => {
+    const { errors } = parseInsights({ ...INSIGHTS, improvements: Array(11).fill('Log more') })
+    expect(errors).toEqual([{ field: 'improvements', message: 'must be an array of at most 10 strings' }])
+  })
+})
+
+describe('parseRecommendations', () => {
+  it('rejects an empty list', () => {
+    expect(parseRecommendations({ recommendations: [] }).errors)
+      .toEqual([{ field: 'recommendations', message: 'must not be empty' }])
+  })
+
+  it('rejects recommendations without evidence', () => {
+    expect(parseRecommendations({ recommendations: [{ ...RECOMMENDATION, evidence: undefined }] }).errors)
+      .toEqual([{ field: 'recommendations[0].evidence', message: 'must be an array' }])
+  })
+})
+
+describe('chat insights provider', () => {
+  function stubClient(...contents: string[]) {
+    const create = vi.fn()
+    for (const content of contents) {
+      create.mockResolvedValueOnce({ choices: [{ message: { content, refusal: null } }] })
+    }
+    return { client: { chat: { completions: { create } } } as unknown as OpenAI, create }
+  }
+
+  function provider(client: OpenAI, temperature?: number) {
+    return createChatInsightsProvider({ id: 'test', client, model: 'test-model', responseFormat: 'json_schema', temperature })
+  }
+
+  it('returns valid output from the first attempt', async () => {
+    const { client, create } = stubClient(JSON.stringify(INSIGHTS))
+
+    await expect(provider(client).generateInsights({ summary: SUMMARY, days: 7 })).resolves.toEqual(INSIGHTS)
+    expect(create).toHaveBeenCalledTimes(1)
+  })
+
+  it('sends invalid output back once for repair', async () => {
+    const invalid = JSON.stringify({ ...INSIGHTS, patterns: 'Steps have held steady' })
+    const { client, create } = stubClient(invalid, JSON.stringify(INSIGHTS))
+
+    await expect(provider(client).generateInsights({ summary: SUMMARY, days: 7 })).resolves.toEqual(INSIGHTS)
+    expect(create).toHaveBeenCalledTimes(2)
+
+    const repairMessages = create.mock.calls[1][0].messages
+    expect(repairMessages.slice(-2)).toEqual([
+      { role: 'assistant', content: invalid },
+      { role: 'user', content: 'That response is invalid: patterns must be an array of at most 10 strings. Reply with the corrected JSON only.' }
+    ])
+  })
+
+  it('gives up after the repair attempt also fails', async () => {
+    const { client, create } = stubClient('{"patterns": [', JSON.stringify({ recommendations: [] }))
+
+    await expect(provider(client).generateRecommendations({ summary: SUMMARY, days: 7 })).resolves.toBeNull()
+    expect(create).toHaveBeenCalledTimes(2)
+  })
+
+  it('only sends a temperature when one is configured', async () => {
+    const unset = stubClient(JSON.stringify(INSIGHTS))
+    await provider(unset.client).generateInsights({ summary: SUMMARY, days: 7 })
+    expect(unset.create.mock.calls[0][0]).not.toHaveProperty('temperature')
+
+    const set = stubClient(JSON.stringify(INSIGHTS))
+    await provider(set.client, 0.2).generateInsights({ summary: SUMMARY, days: 7 })
+    expect(set.create.mock.calls[0][0]).toHaveProperty('temperature', 0.2)
+  })
+})
@@ -0,0 +1,304 @@
+import type OpenAI from 'openai'
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions'
+import type { InsightsProvider, InsightsRequest } from '@/lib/wellness/insights-providers'
+import type { ParseResult } from '@/lib/wellness/schema'
+import type {
+  FieldError,
+  InsightEvidence,
+  Insights,
+  Recommendation,
+  RecommendationPriority
+} from '@/lib/wellness/types'
+
+// =============================================
+// CHAT COMPLETIONS PROVIDER
+// =============================================
+
+// Used for OpenAI and for OpenAI-compatible servers. Output is requested against a
+// JSON schema and validated here; invalid output gets one repair attempt.
+// Longest list any provider may return, model or not
+export const MAX_LIST_ITEMS = 10
+const PRIORITIES: RecommendationPriority[] = ['high', 'medium', 'low']
+
+export function createChatInsightsProvider(options: {
+  id: string
+  client: OpenAI
+  model: string
+  // 'json_object' for servers without structured outputs; the schema is sent in the prompt
+  responseFormat: 'json_schema' | 'json_object'
+  // Left to the model's default when unset; reasoning models reject any value
+  temperature?: number
+}): InsightsProvider {
+  const { client, model, responseFormat, temperature } = options
+  const generate = <T>(request: Omit<StructuredRequest<T>, 'client' | 'model' | 'responseFormat' | 'temperature'>) =>
+    generateStructured({ ...request, client, model, responseFormat, temperature })
+
+  return {
+    id: options.id,
+    source: 'ai',
+    model: options.model,
+
+    generateInsights: ({ summary, days }: InsightsRequest) => generate({
+      name: 'wellness_insights',
+      schema: INSIGHTS_SCHEMA,
+      system: 'You are a health and wellness AI assistant. Provide personalized, actionable insights based on health data.',
+      prompt: `Based on the following health data from the last ${days} days, provide personalized insights and recommendations:
+
+Health Data Summary:
+${JSON.stringify(summary, null, 2)}
+
+Goal: ${summary.goalTitle}
+
+Please provide:
+1. Key patterns and trends observed, including correlations between different health metrics
+2. Areas of improvement
+3. Positive progress indicators
+4. Specific actionable recommendations, each backed by evidence quoted from the summary
+
+Only state what the summary supports.`,
+      maxTokens: 1500,
+      parse: parseInsights
+    }),
+
+    generateRecommendations: async ({ summary, days }: InsightsRequest) => {
+      const result = await generate({
+        name: 'wellness_recommendations',
+        schema: RECOMMENDATIONS_SCHEMA,
+        system: 'You are a health coach AI. Provide specific, actionable recommendations based on health data.',
+        prompt: `Based on this health data from the last ${days} days, provide 3-5 specific, actionable recommendations:
+
+${JSON.stringify(summary, null, 2)}
+
+Goal: ${summary.goalTitle}
+
+Provide recommendations that are:
+- Specific and actionable
+- Based on the actual data patterns, with the evidence for each
+- Realistic and achievable
+- Focused on the user's goal`,
+        maxTokens: 1000,
+        parse: parseRecommendations
+      })
+      return result?.recommendations ?? null
+    }
+  }
+}
+
+// =============================================
+// RESPONSE SCHEMAS
+// =============================================
+
+// Structured outputs in strict mode: every property required, nothing extra
+const STRING_LIST_SCHEMA = { type: 'array', items: { type: 'string' } }
+
+const RECOMMENDATION_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['title', 'description', 'priority', 'evidence'],
+  properties: {
+    title: { type: 'string' },
+    description: { type: 'string' },
+    priority: { type: 'string', enum: PRIORITIES },
+    evidence: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['dataType', 'observation'],
+        properties: {
+          dataType: { type: ['string', 'null'], description: 'Data type from the summary, or null when it spans several' },
+          observation: { type: 'string', description: 'What in the data supports the recommendation, with numbers' }
+        }
+      }
+    }
+  }
+}
+
+const INSIGHTS_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['patterns', 'improvements', 'progress', 'recommendations'],
+  properties: {
+    patterns: STRING_LIST_SCHEMA,
+    improvements: STRING_LIST_SCHEMA,
+    progress: STRING_LIST_SCHEMA,
+    recommendations: { type: 'array', items: RECOMMENDATION_SCHEMA }
+  }
+}
+
+// Structured outputs need an object at the top level
+const RECOMMENDATIONS_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['recommendations'],
+  properties: {
+    recommendations: { type: 'array', items: RECOMMENDATION_SCHEMA }
+  }
+}
+
+// =============================================
+// GENERATION
+// =============================================
+
+interface StructuredRequest<T> {
+  client: OpenAI
+  model: string
+  responseFormat: 'json_schema' | 'json_object'
+  temperature?: number
+  name: string
+  schema: Record<string, unknown>
+  system: string
+  prompt: string
+  maxTokens: number
+  parse: (value: unknown) => ParseResult<T>
+}
+
+// Output that fails validation is sent back once with the errors for the model to
+// repair. Null when no usable output came back; API errors are thrown.
+async function generateStructured<T>(request: StructuredRequest<T>): Promise<T | null> {
+  const system = request.responseFormat === 'json_schema'
+    ? request.system
+    : `${request.system} Respond with a JSON object matching this JSON schema:\n${JSON.stringify(request.schema)}`
+
+  const messages: ChatCompletionMessageParam[] = [
+    { role: 'system', content: system },
+    { role: 'user', content: request.prompt }
+  ]
+
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    const completion = await request.client.chat.completions.create({
+      model: request.model,
+      messages,
+      max_tokens: request.maxTokens,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      response_format: request.responseFormat === 'json_schema'
+        ? { type: 'json_schema', json_schema: { name: request.name, schema: request.schema, strict: true } }
+        : { type: 'json_object' }
+    })
+
+    const message = completion.choices[0]?.message
+    if (message?.refusal) {
+      console.warn(`⚠️ Model refused to generate ${request.name}:`, message.refusal)
+      return null
+    }
+
+    const content = message?.content ?? ''
+    const parsed = parseJson(content, request.parse)
+    if (!parsed.errors) return parsed.value
+
+    console.warn(`⚠️ ${request.name} failed validation (attempt ${attempt}):`, JSON.stringify(parsed.errors))
+    messages.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `That response is invalid: ${parsed.errors.map(error => `${error.field} ${error.message}`).join('; ')}. Reply with the corrected JSON only.`
+      }
+    )
+  }
+
+  return null
+}
+
+function parseJson<T>(content: string, parse: (value: unknown) => ParseResult<T>): ParseResult<T> {
+  try {
+    return parse(JSON.parse(content))
+  } catch {
+    // Usually output cut off at max_tokens
+    return { errors: [{ field: 'response', message: 'is not valid JSON' }] }
+  }
+}
+
+// =============================================
+// VALIDATION
+// =============================================
+
+export function parseInsights(value: unknown): ParseResult<Insights> {
+  if (!isObject(value)) {
+    return { errors: [{ field: 'response', message: 'must be a JSON object' }] }
+  }
+
+  const errors: FieldError[] = []
+  const insights: Insights = {
+    patterns: stringList(value, 'patterns', errors),
+    improvements: stringList(value, 'improvements', errors),
+    progress: stringList(value, 'progress', errors),
+    recommendations: recommendationList(value, 'recommendations', errors)
+  }
+  return errors.length > 0 ? { errors } : { value: insights }
+}
+
+export function parseRecommendations(value: unknown): ParseResult<{ recommendations: Recommendation[] }> {
+  if (!isObject(value)) {
+    return { errors: [{ field: 'response', message: 'must be a JSON object' }] }
+  }
+
+  const errors: FieldError[] = []
+  const recommendations = recommendationList(value, 'recommendations', errors)
+  if (errors.length === 0 && recommendations.length === 0) {
+    errors.push({ field: 'recommendations', message: 'must not be empty' })
+  }
+  return errors.length > 0 ? { errors } : { value: { recommendations } }
+}
+
+function stringList(body: Record<string, unknown>, field: string, errors: FieldError[]): string[] {
+  const value = body[field]
+  if (!Array.isArray(value) || value.length > MAX_LIST_ITEMS) {
+    errors.push({ field, message: `must be an array of at most ${MAX_LIST_ITEMS} strings` })
+    return []
+  }
+
+  const items = value.map(item => (typeof item === 'string' ? item.trim() : ''))
+  items.forEach((item, i) => {
+    if (!item) errors.push({ field: `${field}[${i}]`, message: 'must be a non-empty string' })
+  })
+  return items
+}
+
+function recommendationList(body: Record<string, unknown>, field: string, errors: FieldError[]): Recommendation[] {
+  const value = body[field]
+  if (!Array.isArray(value) || value.length > MAX_LIST_ITEMS) {
+    errors.push({ field, message: `must be an array of at most ${MAX_LIST_ITEMS} recommendations` })
+    return []
+  }
+
+  return value.map((item, i) => {
+    const path = `${field}[${i}]`
+    if (!isObject(item)) {
+      errors.push({ field: path, message: 'must be an object' })
+      return null
+    }
+
+    for (const key of ['title', 'description']) {
+      if (typeof item[key] !== 'string' || !(item[key] as string).trim()) {
+        errors.push({ field: `${path}.${key}`, message: 'must be a non-empty string' })
+      }
+    }
+    if (!PRIORITIES.includes(item.priority as RecommendationPriority)) {
+      errors.push({ field: `${path}.priority`, message: `must be one of ${PRIORITIES.join(', ')}` })
+    }
+
+    const evidence = Array.isArray(item.evidence) ? item.evidence : null
+    if (!evidence) {
+      errors.push({ field: `${path}.evidence`, message: 'must be an array' })
+    }
+    evidence?.forEach((entry, j) => {
+      const valid = isObject(entry) &&
+        typeof entry.observation === 'string' && entry.observation.trim() !== '' &&
+        (entry.dataType === null || typeof entry.dataType === 'string')
+      if (!valid) {
+        errors.push({ field: `${path}.evidence[${j}]`, message: 'must have an observation and a dataType (or null)' })
+      }
+    })
+
+    return {
+      title: String(item.title ?? '').trim(),
+      description: String(item.description ?? '').trim(),
+      priority: item.priority as RecommendationPriority,
+      evidence: (evidence ?? []) as InsightEvidence[]
+    }
+  }).filter((recommendation): recommendation is Recommendation => recommendation !== null)
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
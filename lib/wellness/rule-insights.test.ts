@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest'
+import type { DataSummary, MetricSummary } from '@/lib/wellness/insights-providers'
+import { prepareDataSummary } from '@/lib/wellness/insights'
+import { MAX_LIST_ITEMS } from '@/lib/wellness/llm-insights'
+import { buildInsights, ruleBasedInsightsProvider } from '@/lib/wellness/rule-insights'
+import type { HealthGoalRecord } from '@/lib/wellness/types'
+
+function metric(overrides: Partial<MetricSummary> = {}): MetricSummary {
+  return {
+    count: 14,
+    unit: null,
+    average: 0,
+    min: null,
+    max: null,
+    first: null,
+    latest: null,
+    daysLogged: 14,
+    trend: 'stable',
+    ...overrides
+  }
+}
+
+const SUMMARY: DataSummary = {
+  totalEntries: 28,
+  dataTypes: 2,
+  periodDays: 14,
+  goalTitle: 'Walk more',
+  goal: {
+    dataType: 'steps',
+    target: 10000,
+    direction: 'increase',
+    unit: 'steps',
+    current: 6200,
+    currentDay: '2026-10-18',
+    daysLogged: 14,
+    daysOnTarget: 2
+  },
+  dateRange: { start: '2026-10-05T08:00:00Z', end: '2026-10-18T20:00:00Z' },
+  metrics: {
+    steps: metric({ unit: 'steps', average: 6500, min: 800, max: 11000, first: 5000, latest: 800, trend: 'stable' }),
+    heart_rate: metric({ unit: 'bpm', average: 112, min: 95, max: 130, first: 100, latest: 120, trend: 'increasing', daysLogged: 3 })
+  }
+}
+
+describe('buildInsights', () => {
+  it('gives the same insights for the same summary', () => {
+    expect(buildInsights(SUMMARY)).toEqual(buildInsights(structuredClone(SUMMARY)))
+  })
+
+  it('flags out-of-range metrics, sparse logging and a goal that is off track', () => {
+    const insights = buildInsights(SUMMARY)
+
+    expect(insights.recommendations.map(recommendation => [recommendation.title, recommendation.priority])).toEqual([
+      ['Review Your Heart rate', 'high'],
+      ['Refocus on "Walk more"', 'high'],
+      ['Log Heart rate More Often', 'medium']
+    ])
+    expect(insights.improvements).toContain(
+      'Steps on 2026-10-18 was 6,200 steps against a target of 10,000 steps, on target on 2 of 14 days logged'
+    )
+    expect(insights.progress).toContain('Consistent steps logging: logged on 14 of the last 14 days')
+  })
+
+  it('judges a goal by its daily figure, not the last reading', () => {
+    const insights = buildInsights({ ...SUMMARY, goal: { ...SUMMARY.goal!, current: 10400, daysOnTarget: 3 } })
+
+    expect(insights.progress).toContain(
+      'Steps on 2026-10-18 was 10,400 steps, meeting your target of 10,000 steps (on target on 3 of 14 days logged)'
+    )
+    expect(insights.recommendations.map(recommendation => recommendation.title)).not.toContain('Refocus on "Walk more"')
+  })
+
+  it('asks for data when nothing was logged', () => {
+    const insights = buildInsights({ ...SUMMARY, totalEntries: 0, dataTypes: 0, metrics: {}, goal: null })
+
+    expect(insights.patterns).toEqual(['No readings logged in the last 14 days'])
+    expect(insights.recommendations).toEqual([{
+      title: 'Start Logging',
+      description: 'Log at least one metric daily for a week so trends can be measured',
+      priority: 'high',
+      evidence: [{ dataType: null, observation: '0 readings in the last 14 days' }]
+    }])
+  })
+
+  it('caps every list', () => {
+    const metrics = Object.fromEntries(
+      Array.from({ length: MAX_LIST_ITEMS + 5 }, (_, i) => [`metric_${i}`, metric({ daysLogged: 1 })])
+    )
+    const insights = buildInsights({ ...SUMMARY, goal: null, metrics })
+
+    for (const list of [insights.patterns, insights.improvements, insights.recommendations]) {
+      expect(list).toHaveLength(MAX_LIST_ITEMS)
+    }
+  })
+
+  it('backs the provider without touching the network', async () => {
+    await expect(ruleBasedInsightsProvider.generateRecommendations({ summary: SUMMARY, days: 14 }))
+      .resolves.toEqual(buildInsights(SUMMARY).recommendations)
+  })
+})
+
+describe('prepareDataSummary', () => {
+  const goal = {
+    id: 'goal-1',
+    title: 'Walk more',
+    data_type: 'steps',
+    target_value: 10000,
+    direction: 'increase',
+    unit: 'steps'
+  } as HealthGoalRecord
+
+  it('totals cumulative goal readings per day', () => {
+    // Newest first, as the insights route loads them
+    const readings = [
+      { data_type: 'steps', data: 800, unit: 'steps', date: '2026-10-17T21:00:00Z' },
+      { data_type: 'steps', data: 9500, unit: 'steps', date: '2026-10-17T12:00:00Z' },
+      { data_type: 'steps', data: 4000, unit: 'steps', date: '2026-10-16T12:00:00Z' }
+    ]
+
+    expect(prepareDataSummary(readings, goal, 7).goal).toMatchObject({
+      current: 10300,
+      currentDay: '2026-10-17',
+      daysLogged: 2,
+      daysOnTarget: 1
+    })
+  })
+})
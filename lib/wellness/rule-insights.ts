@@ -0,0 +1,189 @@
+import { REFERENCE_RANGES } from '@/lib/wellness/anomalies'
+import { meetsTarget } from '@/lib/wellness/goals'
+import { MAX_LIST_ITEMS } from '@/lib/wellness/llm-insights'
+import type { DataSummary, InsightsProvider, MetricSummary } from '@/lib/wellness/insights-providers'
+import type { HealthDataType, Insights, RecommendationPriority } from '@/lib/wellness/types'
+
+// =============================================
+// RULE-BASED INSIGHTS
+// =============================================
+
+// Deterministic insights from the data summary alone: trends, logging frequency,
+// reference ranges and goal direction. No network, and the same summary always gives
+// the same output, so development and tests don't depend on a model.
+// Logged on fewer than this share of the period's days counts as sparse
+const SPARSE_LOGGING_RATIO = 0.5
+const PRIORITY_ORDER: RecommendationPriority[] = ['high', 'medium', 'low']
+
+export const ruleBasedInsightsProvider: InsightsProvider = {
+  id: 'rules',
+  source: 'rules',
+  model: null,
+
+  generateInsights: async ({ summary }) => buildInsights(summary),
+
+  generateRecommendations: async ({ summary }) => buildInsights(summary).recommendations
+}
+
+export function buildInsights(summary: DataSummary): Insights {
+  const insights: Insights = { patterns: [], improvements: [], progress: [], recommendations: [] }
+  const dataTypes = Object.keys(summary.metrics).sort()
+
+  if (dataTypes.length === 0) {
+    insights.patterns.push(`No readings logged in the last ${summary.periodDays} days`)
+    insights.improvements.push('Start logging health data to build a baseline')
+    insights.recommendations.push({
+      title: 'Start Logging',
+      description: summary.goal
+        ? `Log ${label(summary.goal.dataType)} regularly so progress toward "${summary.goalTitle}" can be tracked`
+        : 'Log at least one metric daily for a week so trends can be measured',
+      priority: 'high',
+      evidence: [{ dataType: summary.goal?.dataType ?? null, observation: `0 readings in the last ${summary.periodDays} days` }]
+    })
+    return insights
+  }
+
+  for (const dataType of dataTypes) {
+    const metric = summary.metrics[dataType]
+    describeTrend(insights, dataType, metric)
+    checkLogging(insights, dataType, metric, summary.periodDays)
+    checkReferenceRange(insights, dataType, metric)
+  }
+  if (summary.goal) checkGoal(insights, summary)
+
+  if (insights.recommendations.length === 0) {
+    insights.recommendations.push({
+      title: 'Keep Going',
+      description: 'Your metrics are steady and within typical ranges; keep up your current routine',
+      priority: 'low',
+      evidence: [{ dataType: null, observation: `${summary.totalEntries} readings across ${dataTypes.length} metrics` }]
+    })
+  }
+
+  return {
+    patterns: insights.patterns.slice(0, MAX_LIST_ITEMS),
+    improvements: insights.improvements.slice(0, MAX_LIST_ITEMS),
+    progress: insights.progress.slice(0, MAX_LIST_ITEMS),
+    // Stable sort: within a priority, recommendations stay in data type order
+    recommendations: [...insights.recommendations]
+      .sort((a, b) => PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority))
+      .slice(0, MAX_LIST_ITEMS)
+  }
+}
+
+// =============================================
+// RULES
+// =============================================
+
+function describeTrend(insights: Insights, dataType: string, metric: MetricSummary) {
+  const average = `averaging ${format(metric.average, metric.unit)}`
+  switch (metric.trend) {
+    case 'increasing':
+    case 'decreasing':
+      insights.patterns.push(
+        `${capitalize(label(dataType))} has been ${metric.trend} (${average}, latest ${format(metric.latest, metric.unit)})`
+      )
+      break
+    case 'stable':
+      insights.patterns.push(`${capitalize(label(dataType))} has held steady, ${average}`)
+      break
+    case 'insufficient_data':
+      insights.patterns.push(`Not enough days of ${label(dataType)} to see a trend yet (${average})`)
+      break
+  }
+}
+
+function checkLogging(insights: Insights, dataType: string, metric: MetricSummary, periodDays: number) {
+  const logged = `Logged on ${metric.daysLogged} of the last ${periodDays} days`
+  if (metric.daysLogged >= periodDays * SPARSE_LOGGING_RATIO) {
+    insights.progress.push(`Consistent ${label(dataType)} logging: ${logged.toLowerCase()}`)
+    return
+  }
+
+  insights.improvements.push(`Log ${label(dataType)} more often: ${logged.toLowerCase()}`)
+  insights.recommendations.push({
+    title: `Log ${capitalize(label(dataType))} More Often`,
+    description: `More frequent ${label(dataType)} readings make trends and progress easier to measure`,
+    priority: 'medium',
+    evidence: [{ dataType, observation: logged }]
+  })
+}
+
+function checkReferenceRange(insights: Insights, dataType: string, metric: MetricSummary) {
+  const range = REFERENCE_RANGES[dataType as HealthDataType]
+  if (!range || metric.count === 0) return
+
+  const average = format(metric.average, metric.unit)
+  if (range.high !== undefined && metric.average > range.high) {
+    outOfRange(insights, dataType, `Average ${label(dataType)} of ${average} is above the typical range (up to ${format(range.high, metric.unit)})`)
+  } else if (range.low !== undefined && metric.average < range.low) {
+    outOfRange(insights, dataType, `Average ${label(dataType)} of ${average} is below the typical range (from ${format(range.low, metric.unit)})`)
+  } else {
+    insights.progress.push(`${capitalize(label(dataType))} is within the typical range, averaging ${average}`)
+  }
+}
+
+function outOfRange(insights: Insights, dataType: string, observation: string) {
+  insights.improvements.push(observation)
+  insights.recommendations.push({
+    title: `Review Your ${capitalize(label(dataType))}`,
+    description: `Your ${label(dataType)} is outside the typical range; consider discussing it with a healthcare provider`,
+    priority: 'high',
+    evidence: [{ dataType, observation }]
+  })
+}
+
+function checkGoal(insights: Insights, summary: DataSummary) {
+  const goal = summary.goal!
+  const metric = summary.metrics[goal.dataType]
+  const target = format(goal.target, goal.unit)
+  if (goal.current === null) {
+    insights.improvements.push(`No ${label(goal.dataType)} readings toward "${summary.goalTitle}" in this period`)
+    insights.recommendations.push({
+      title: 'Track Your Goal',
+      description: `Log ${label(goal.dataType)} to measure progress toward your target of ${target}`,
+      priority: 'high',
+      evidence: [{ dataType: goal.dataType, observation: `0 readings in the last ${summary.periodDays} days` }]
+    })
+    return
+  }
+
+  const current = format(goal.current, goal.unit)
+  const day = `${label(goal.dataType)} on ${goal.currentDay}`
+  const onTarget = `on target on ${goal.daysOnTarget} of ${goal.daysLogged} days logged`
+  if (meetsTarget(goal.direction, goal.current, goal.target)) {
+    insights.progress.push(`${capitalize(day)} was ${current}, meeting your target of ${target} (${onTarget})`)
+    return
+  }
+
+  const toward = goal.direction === 'increase' ? 'increasing' : goal.direction === 'decrease' ? 'decreasing' : null
+  if (toward && metric?.trend === toward) {
+    insights.progress.push(`${capitalize(label(goal.dataType))} is moving toward your target of ${target} (${day}: ${current})`)
+    return
+  }
+
+  const observation = `${capitalize(day)} was ${current} against a target of ${target}, ${onTarget}`
+  insights.improvements.push(observation)
+  insights.recommendations.push({
+    title: `Refocus on "${summary.goalTitle}"`,
+    description: goal.direction === 'maintain'
+      ? `Aim to keep ${label(goal.dataType)} close to ${target}`
+      : `Small daily changes can start moving ${label(goal.dataType)} toward ${target}`,
+    priority: 'high',
+    evidence: [{ dataType: goal.dataType, observation }]
+  })
+}
+
+function label(dataType: string) {
+  return dataType.replace(/_/g, ' ')
+}
+
+function capitalize(text: string) {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+function format(value: number | null, unit: string | null) {
+  if (value === null) return 'n/a'
+  const rounded = (Math.round(value * 10) / 10).toLocaleString('en-US')
+  return unit ? `${rounded} ${unit}` : rounded
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { parseHealthDataEdit } from '@/lib/wellness/schema'
+
+describe('parseHealthDataEdit', () => {
+  // Saved before heart_rate had a unit list and range
+  const legacy = { dataType: 'heart_rate', value: 400, unit: 'beats' }
+
+  it('leaves an untouched reading alone', () => {
+    expect(parseHealthDataEdit(legacy, { notes: 'Cuff slipped' })).toEqual({ value: { notes: 'Cuff slipped' } })
+  })
+
+  it('checks the whole reading when part of it changes', () => {
+    expect(parseHealthDataEdit(legacy, { value: 72 }).errors)
+      .toEqual([{ field: 'unit', message: 'must be one of bpm for heart_rate' }])
+    expect(parseHealthDataEdit(legacy, { value: 72, unit: 'bpm' }))
+      .toEqual({ value: { dataType: 'heart_rate', value: 72, unit: 'bpm' } })
+  })
+
+  it('drops the old unit when the data type changes', () => {
+    expect(parseHealthDataEdit(legacy, { dataType: 'steps', value: 4000 }))
+      .toEqual({ value: { dataType: 'steps', value: 4000, unit: 'steps' } })
+  })
+
+  it('clears optional fields with null', () => {
+    expect(parseHealthDataEdit(legacy, { notes: null, goalId: null })).toEqual({ value: { notes: null, goalId: null } })
+  })
+
+  it('still rejects bad values for the fields it sets', () => {
+    expect(parseHealthDataEdit(legacy, { goalId: 'not-a-uuid' }).errors)
+      .toEqual([{ field: 'goalId', message: 'must be a UUID' }])
+  })
+})
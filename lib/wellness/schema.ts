@@ -0,0 +1,712 @@
+import { NextResponse } from 'next/server'
+import { convertUnit } from '@/lib/ehr/health-data'
+import { decodeCursor } from '@/lib/wellness/cursor'
+import { isValidTimeZone } from '@/lib/wellness/statistics'
+import type {
+  AnalyticsEndpoint,
+  AnalyticsQuery,
+  AnomalySeverity,
+  CreateGoalRequest,
+  DashboardEndpoint,
+  DashboardQuery,
+  FieldError,
+  GenerateInsightsRequest,
+  GoalDirection,
+  GoalForecastQuery,
+  GoalQuery,
+  GoalsQuery,
+  GoalStatus,
+  HealthDataQuery,
+  HealthDataSort,
+  HealthDataType,
+  InsightsEndpoint,
+  InsightsQuery,
+  LogHealthDataRequest,
+  TrendBucket,
+  UpdateGoalRequest,
+  UpdateHealthDataRequest
+} from '@/lib/wellness/types'
+
+// =============================================
+// WELLNESS PAYLOAD VALIDATION
+// =============================================
+
+export type ParseResult<T> =
+  | { value: T; errors?: undefined }
+  | { value?: undefined; errors: FieldError[] }
+
+export function validationError(errors: FieldError[], status = 400) {
+  return NextResponse.json({ error: 'Invalid request', fields: errors }, { status })
+}
+
+interface DataTypeRule {
+  // First unit is the one stored; the rest are accepted and converted
+  units: string[]
+  min: number
+  max: number
+}
+
+// Ranges are in the stored unit and only reject physically implausible values
+export const DATA_TYPE_RULES: Record<HealthDataType, DataTypeRule> = {
+  weight: { units: ['lbs', 'kg'], min: 1, max: 1500 },
+  height: { units: ['in', 'cm'], min: 10, max: 108 },
+  bmi: { units: ['kg/m2'], min: 5, max: 100 },
+  blood_pressure_systolic: { units: ['mmHg'], min: 40, max: 300 },
+  blood_pressure_diastolic: { units: ['mmHg'], min: 20, max: 200 },
+  heart_rate: { units: ['bpm'], min: 20, max: 300 },
+  respiratory_rate: { units: ['breaths/min'], min: 1, max: 100 },
+  body_temperature: { units: ['°F', '°C'], min: 80, max: 115 },
+  oxygen_saturation: { units: ['%'], min: 50, max: 100 },
+  glucose: { units: ['mg/dL', 'mmol/L'], min: 10, max: 1000 },
+  a1c: { units: ['%'], min: 2, max: 20 },
+  cholesterol_total: { units: ['mg/dL', 'mmol/L'], min: 0, max: 1000 },
+  cholesterol_hdl: { units: ['mg/dL', 'mmol/L'], min: 0, max: 1000 },
+  cholesterol_ldl: { units: ['mg/dL', 'mmol/L'], min: 0, max: 1000 },
+  triglycerides: { units: ['mg/dL', 'mmol/L'], min: 0, max: 5000 },
+  steps: { units: ['steps'], min: 0, max: 200000 },
+  sleep: { units: ['hours', 'min'], min: 0, max: 24 },
+  water: { units: ['oz'], min: 0, max: 1000 },
+  exercise: { units: ['minutes'], min: 0, max: 1440 },
+  calories: { units: ['kcal'], min: 0, max: 20000 },
+  mood: { units: ['score'], min: 1, max: 10 }
+}
+
+// Types outside DATA_TYPE_RULES are allowed as long as they look like one
+const CUSTOM_DATA_TYPE = /^[a-z][a-z0-9_]{0,49}$/
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d{1,6})?)?(Z|[+-]\d{2}:?\d{2})?)?$/
+
+const MAX_NOTES_LENGTH = 1000
+const MAX_UNIT_LENGTH = 32
+const MAX_IDEMPOTENCY_KEY_LENGTH = 128
+// Also caps file imports, which are validated, scored and inserted in one go like a batch
+export const MAX_BATCH_ENTRIES = 500
+const MAX_PAGE_SIZE = 500
+const EDITABLE_FIELDS = ['dataType', 'value', 'unit', 'notes', 'goalId', 'timestamp']
+const MAX_TITLE_LENGTH = 200
+const GOAL_DIRECTIONS: GoalDirection[] = ['increase', 'decrease', 'maintain']
+const GOAL_STATUSES: GoalStatus[] = ['active', 'paused', 'completed', 'archived']
+const EDITABLE_GOAL_FIELDS = [
+  'title', 'description', 'targetValue', 'unit', 'direction', 'baselineValue', 'deadline', 'expectedDaysPerWeek', 'status'
+]
+// Allows for device clock drift, not future-dated entries
+const MAX_FUTURE_SKEW_MS = 24 * 60 * 60 * 1000
+
+export function isKnownDataType(dataType: string): dataType is HealthDataType {
+  return Object.prototype.hasOwnProperty.call(DATA_TYPE_RULES, dataType)
+}
+
+// Converts a measurement of a known type to its stored unit and checks the range.
+// Custom types pass through unchanged.
+export function applyDataTypeRule(
+  dataType: string,
+  value: number,
+  unit: string | undefined,
+  valueField: string
+): ParseResult<{ value: number; unit: string | undefined }> {
+  if (!isKnownDataType(dataType)) return { value: { value, unit } }
+
+  const rule = DATA_TYPE_RULES[dataType]
+  const storedUnit = rule.units[0]
+
+  if (unit !== undefined && !rule.units.includes(unit)) {
+    return { errors: [{ field: 'unit', message: `must be one of ${rule.units.join(', ')} for ${dataType}` }] }
+  }
+
+  if (unit !== undefined && unit !== storedUnit) {
+    const converted = convertUnit(dataType, value, unit, storedUnit)
+    if (converted === null) {
+      return { errors: [{ field: 'unit', message: `cannot be converted to ${storedUnit}` }] }
+    }
+    value = Math.round(converted * 100) / 100
+  }
+
+  if (value < rule.min || value > rule.max) {
+    return {
+      errors: [{ field: valueField, message: `must be between ${rule.min} and ${rule.max} ${storedUnit} for ${dataType}` }]
+    }
+  }
+
+  return { value: { value, unit: storedUnit } }
+}
+
+// =============================================
+// REQUEST BODIES
+// =============================================
+
+// POST /api/wellness/data. Known types come back converted to their stored unit.
+export function parseLogHealthData(body: unknown): ParseResult<LogHealthDataRequest> {
+  if (!isObject(body)) {
+    return { errors: [{ field: 'body', message: 'must be a JSON object' }] }
+  }
+
+  const errors: FieldError[] = []
+  const userId = optionalString(body, 'userId', errors)
+  const notes = optionalString(body, 'notes', errors, MAX_NOTES_LENGTH)
+  const goalId = optionalUuid(body, 'goalId', errors)
+  const timestamp = optionalTimestamp(body, 'timestamp', errors)
+  const idempotencyKey = optionalString(body, 'idempotencyKey', errors, MAX_IDEMPOTENCY_KEY_LENGTH)
+  let unit = optionalString(body, 'unit', errors, MAX_UNIT_LENGTH)
+
+  const dataType = body.dataType
+  if (typeof dataType !== 'string' || !CUSTOM_DATA_TYPE.test(dataType)) {
+    errors.push({ field: 'dataType', message: 'is required and must be a lowercase snake_case name' })
+  }
+
+  let value = body.value
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push({ field: 'value', message: 'is required and must be a finite number' })
+  }
+
+  if (errors.length > 0) return { errors }
+
+  const measured = applyDataTypeRule(dataType as string, value as number, unit, 'value')
+  if (measured.errors) return measured
+  value = measured.value.value
+  unit = measured.value.unit
+
+  return {
+    value: {
+      userId,
+      dataType: dataType as string,
+      value: value as number,
+      unit,
+      notes,
+      goalId,
+      timestamp,
+      idempotencyKey
+    }
+  }
+}
+
+// PATCH /api/wellness/data/:id. Checks field types only; parseHealthDataEdit applies
+// the entry rules once the stored row is known.
+export function parseHealthDataUpdate(body: unknown): ParseResult<UpdateHealthDataRequest> {
+  if (!isObject(body)) {
+    return { errors: [{ field: 'body', message: 'must be a JSON object' }] }
+  }
+
+  const errors: FieldError[] = []
+  const editable = Object.keys(body).filter(field => field !== 'userId')
+  for (const field of editable) {
+    if (!EDITABLE_FIELDS.includes(field)) {
+      errors.push({ field, message: 'cannot be changed' })
+    }
+  }
+  if (editable.length === 0) {
+    errors.push({ field: 'body', message: `must include at least one of ${EDITABLE_FIELDS.join(', ')}` })
+  }
+
+  if (body.dataType !== undefined && (typeof body.dataType !== 'string' || !CUSTOM_DATA_TYPE.test(body.dataType))) {
+    errors.push({ field: 'dataType', message: 'must be a lowercase snake_case name' })
+  }
+  if (body.value !== undefined && (typeof body.value !== 'number' || !Number.isFinite(body.value))) {
+    errors.push({ field: 'value', message: 'must be a finite number' })
+  }
+  for (const field of ['unit', 'notes', 'goalId', 'timestamp']) {
+    const value = body[field]
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      errors.push({ field, message: 'must be a string' })
+    }
+  }
+  if (body.timestamp === null) {
+    errors.push({ field: 'timestamp', message: 'cannot be cleared' })
+  }
+
+  return errors.length > 0 ? { errors } : { value: body as UpdateHealthDataRequest }
+}
+
+// Normalized values for the fields an edit sets; null clears an optional field
+export interface HealthDataEdit {
+  dataType?: string
+  value?: number
+  unit?: string | null
+  notes?: string | null
+  goalId?: string | null
+  timestamp?: string
+}
+
+// Checks only what the edit touches against the current rules, so rows saved before
+// a rule existed can still have their notes fixed. dataType, value and unit are one
+// reading and are checked together when any of them changes.
+export function parseHealthDataEdit(
+  existing: { dataType: string; value: number; unit: string | null },
+  changes: UpdateHealthDataRequest
+): ParseResult<HealthDataEdit> {
+  const body = changes as Record<string, unknown>
+  const errors: FieldError[] = []
+  const edit: HealthDataEdit = {}
+
+  if (changes.notes !== undefined) edit.notes = optionalString(body, 'notes', errors, MAX_NOTES_LENGTH) ?? null
+  if (changes.goalId !== undefined) edit.goalId = optionalUuid(body, 'goalId', errors) ?? null
+  if (changes.timestamp !== undefined) edit.timestamp = optionalTimestamp(body, 'timestamp', errors)
+
+  if (changes.dataType !== undefined || changes.value !== undefined || changes.unit !== undefined) {
+    const dataType = changes.dataType ?? existing.dataType
+    // A new data type has its own units; don't carry the old one over
+    const unit = changes.unit !== undefined
+      ? optionalString(body, 'unit', errors, MAX_UNIT_LENGTH)
+      : dataType !== existing.dataType ? undefined : existing.unit ?? undefined
+
+    if (!CUSTOM_DATA_TYPE.test(dataType)) {
+      errors.push({ field: 'dataType', message: 'must be a lowercase snake_case name' })
+    } else {
+      const measured = applyDataTypeRule(dataType, changes.value ?? existing.value, unit, 'value')
+      if (measured.errors) {
+        errors.push(...measured.errors)
+      } else {
+        edit.dataType = dataType
+        edit.value = measured.value.value
+        edit.unit = measured.value.unit ?? null
+      }
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { value: edit }
+}
+
+// POST /api/wellness/data/batch. Entries are validated one by one when saved so a
+// bad entry doesn't reject the rest; only the envelope is checked here.
+export function parseBatchRequest(body: unknown): ParseResult<{ userId?: string; entries: unknown[]; dryRun: boolean }> {
+  if (!isObject(body)) {
+    return { errors: [{ field: 'body', message: 'must be a JSON object' }] }
+  }
+
+  const errors: FieldError[] = []
+  const userId = optionalString(body, 'userId', errors)
+
+  if (!Array.isArray(body.entries) || body.entries.length === 0) {
+    errors.push({ field: 'entries', message: 'must be a non-empty array' })
+  } else if (body.entries.length > MAX_BATCH_ENTRIES) {
+    errors.push({ field: 'entries', message: `must contain at most ${MAX_BATCH_ENTRIES} entries` })
+  }
+
+  if (body.dryRun !== undefined && typeof body.dryRun !== 'boolean') {
+    errors.push({ field: 'dryRun', message: 'must be a boolean' })
+  }
+
+  if (errors.length > 0) return { errors }
+  return { value: { userId, entries: body.entries as unknown[], dryRun: body.dryRun === true } }
+}
+
+// POST /api/wellness/goals. The target comes back in the data type's stored unit.
+export function parseCreateGoal(body: unknown): ParseResult<CreateGoalRequest> {
+  if (!isObject(body)) {
+    return { errors: [{ field: 'body', message: 'must be a JSON object' }] }
+  }
+
+  const errors: FieldError[] = []
+  const userId = optionalString(body, 'userId', errors)
+  const description = optionalString(body, 'description', errors, MAX_NOTES_LENGTH)
+  const deadline = optionalDeadline(body, 'deadline', errors)
+  const unit = optionalString(body, 'unit', errors, MAX_UNIT_LENGTH)
+
+  const title = optionalString(body, 'title', errors, MAX_TITLE_LENGTH)?.trim()
+  if (!title) {
+    errors.push({ field: 'title', message: 'is required' })
+  }
+
+  const dataType = body.dataType
+  if (typeof dataType !== 'string' || !CUSTOM_DATA_TYPE.test(dataType)) {
+    errors.push({ field: 'dataType', message: 'is required and must be a lowercase snake_case name' })
+  }
+
+  const direction = body.direction
+  if (!GOAL_DIRECTIONS.includes(direction as GoalDirection)) {
+    errors.push({ field: 'direction', message: `is required and must be one of ${GOAL_DIRECTIONS.join(', ')}` })
+  }
+
+  const targetValue = body.targetValue
+  if (typeof targetValue !== 'number' || !Number.isFinite(targetValue)) {
+    errors.push({ field: 'targetValue', message: 'is required and must be a finite number' })
+  }
+
+  const baselineValue = body.baselineValue
+  if (baselineValue !== undefined && (typeof baselineValue !== 'number' || !Number.isFinite(baselineValue))) {
+    errors.push({ field: 'baselineValue', message: 'must be a finite number' })
+  }
+
+  const expectedDaysPerWeek = optionalDaysPerWeek(body, errors)
+
+  if (errors.length > 0) return { errors }
+
+  const target = applyDataTypeRule(dataType as string, targetValue as number, unit, 'targetValue')
+  if (target.errors) return target
+
+  let baseline: number | undefined
+  if (baselineValue !== undefined) {
+    const parsed = applyDataTypeRule(dataType as string, baselineValue as number, unit, 'baselineValue')
+    if (parsed.errors) return parsed
+    baseline = parsed.value.value
+  }
+
+  return {
+    value: {
+      userId,
+      title: title!,
+      description,
+      dataType: dataType as string,
+      targetValue: target.value.value,
+      unit: target.value.unit,
+      direction: direction as GoalDirection,
+      baselineValue: baseline,
+      deadline,
+      expectedDaysPerWeek
+    }
+  }
+}
+
+// PATCH /api/wellness/goals/:id. Checks field types only; targets are converted
+// once the goal's data type is known.
+export function parseGoalUpdate(body: unknown): ParseResult<UpdateGoalRequest> {
+  if (!isObject(body)) {
+    return { errors: [{ field: 'body', message: 'must be a JSON object' }] }
+  }
+
+  const errors: FieldError[] = []
+  const editable = Object.keys(body).filter(field => field !== 'userId')
+  for (const field of editable) {
+    if (!EDITABLE_GOAL_FIELDS.includes(field)) {
+      errors.push({ field, message: 'cannot be changed' })
+    }
+  }
+  if (editable.length === 0) {
+    errors.push({ field: 'body', message: `must include at least one of ${EDITABLE_GOAL_FIELDS.join(', ')}` })
+  }
+
+  if (body.title !== undefined) {
+    const title = optionalString(body, 'title', errors, MAX_TITLE_LENGTH)?.trim()
+    if (!title) errors.push({ field: 'title', message: 'cannot be empty' })
+  }
+  if (body.description !== null) optionalString(body, 'description', errors, MAX_NOTES_LENGTH)
+  if (body.deadline !== null) optionalDeadline(body, 'deadline', errors)
+  optionalString(body, 'unit', errors, MAX_UNIT_LENGTH)
+  // The unit describes the values sent with it; targets stay in the data type's unit
+  if (body.unit !== undefined && body.targetValue === undefined && (body.baselineValue ?? null) === null) {
+    errors.push({ field: 'unit', message: 'can only be sent with targetValue or baselineValue' })
+  }
+
+  for (const field of ['targetValue', 'baselineValue']) {
+    const value = body[field]
+    if (value === undefined || (value === null && field === 'baselineValue')) continue
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push({ field, message: 'must be a finite number' })
+    }
+  }
+
+  if (body.direction !== undefined && !GOAL_DIRECTIONS.includes(body.direction as GoalDirection)) {
+    errors.push({ field: 'direction', message: `must be one of ${GOAL_DIRECTIONS.join(', ')}` })
+  }
+  optionalDaysPerWeek(body, errors)
+  if (body.status !== undefined && !GOAL_STATUSES.includes(body.status as GoalStatus)) {
+    errors.push({ field: 'status', message: `must be one of ${GOAL_STATUSES.join(', ')}` })
+  }
+
+  if (errors.length > 0) return { errors }
+
+  const update = { ...body } as UpdateGoalRequest
+  if (typeof update.title === 'string') update.title = update.title.trim()
+  return { value: update }
+}
+
+// POST /api/wellness/insights
+export function parseGenerateInsights(body: unknown): ParseResult<GenerateInsightsRequest & { days: number }> {
+  if (!isObject(body)) {
+    return { errors: [{ field: 'body', message: 'must be a JSON object' }] }
+  }
+
+  const errors: FieldError[] = []
+  const userId = optionalString(body, 'userId', errors)
+  const goalId = optionalUuid(body, 'goalId', errors)
+
+  let days = 7
+  if (body.days !== undefined) {
+    // Older clients send days as a string
+    const parsed = typeof body.days === 'string' ? Number(body.days) : body.days
+    if (typeof parsed !== 'number' || !Number.isInteger(parsed) || parsed < 1 || parsed > 365) {
+      errors.push({ field: 'days', message: 'must be an integer between 1 and 365' })
+    } else {
+      days = parsed
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { value: { userId, goalId, days } }
+}
+
+// =============================================
+// QUERY STRINGS
+// =============================================
+
+export function parseHealthDataQuery(params: URLSearchParams): ParseResult<HealthDataQuery> {
+  const errors: FieldError[] = []
+
+  const dataTypes = queryList(params, 'dataType')
+  for (const dataType of dataTypes) {
+    if (!CUSTOM_DATA_TYPE.test(dataType)) {
+      errors.push({ field: 'dataType', message: `"${dataType}" is not a lowercase snake_case name` })
+    }
+  }
+
+  const from = queryTimestamp(params, 'from', errors)
+  const to = queryTimestamp(params, 'to', errors)
+  if (from && to && Date.parse(from) > Date.parse(to)) {
+    errors.push({ field: 'from', message: 'must not be after to' })
+  }
+
+  const cursor = params.get('cursor') || undefined
+  const sort = queryEnum<HealthDataSort>(params, 'sort', ['date_desc', 'date_asc'], 'date_desc', errors)
+  if (cursor) {
+    const decoded = decodeCursor(cursor)
+    if (!decoded) {
+      errors.push({ field: 'cursor', message: 'is not a valid cursor' })
+    } else if (decoded.sort !== sort) {
+      errors.push({ field: 'cursor', message: `was issued for sort=${decoded.sort}` })
+    }
+  }
+
+  const query: HealthDataQuery = {
+    userId: params.get('userId') || undefined,
+    goalId: queryUuid(params, 'goalId', errors),
+    dataTypes,
+    sources: queryList(params, 'source'),
+    from,
+    to,
+    // An explicit range replaces the default window
+    days: from || to ? undefined : queryInteger(params, 'days', 30, 1, 3650, errors),
+    sort,
+    cursor,
+    limit: queryInteger(params, 'limit', 100, 1, MAX_PAGE_SIZE, errors)
+  }
+  return errors.length > 0 ? { errors } : { value: query }
+}
+
+export function parseGoalsQuery(params: URLSearchParams): ParseResult<GoalsQuery> {
+  const errors: FieldError[] = []
+  const status = params.get('status')
+  if (status && !GOAL_STATUSES.includes(status as GoalStatus)) {
+    errors.push({ field: 'status', message: `must be one of ${GOAL_STATUSES.join(', ')}` })
+  }
+
+  const query: GoalsQuery = {
+    userId: params.get('userId') || undefined,
+    status: (status as GoalStatus) || undefined,
+    timezone: queryTimeZone(params, errors)
+  }
+  return errors.length > 0 ? { errors } : { value: query }
+}
+
+export function parseGoalQuery(params: URLSearchParams): ParseResult<GoalQuery> {
+  const errors: FieldError[] = []
+  const query: GoalQuery = {
+    userId: params.get('userId') || undefined,
+    timezone: queryTimeZone(params, errors)
+  }
+  return errors.length > 0 ? { errors } : { value: query }
+}
+
+export function parseGoalForecastQuery(params: URLSearchParams): ParseResult<GoalForecastQuery> {
+  const errors: FieldError[] = []
+  const query: GoalForecastQuery = {
+    userId: params.get('userId') || undefined,
+    timezone: queryTimeZone(params, errors)
+  }
+  return errors.length > 0 ? { errors } : { value: query }
+}
+
+export function parseAnalyticsQuery(params: URLSearchParams): ParseResult<AnalyticsQuery> {
+  const errors: FieldError[] = []
+  const query: AnalyticsQuery = {
+    userId: params.get('userId') || undefined,
+    goalId: queryUuid(params, 'goalId', errors),
+    dataType: queryDataType(params, errors),
+    days: queryInteger(params, 'days', 30, 1, 365, errors),
+    endpoint: queryEnum<AnalyticsEndpoint>(
+      params, 'endpoint', ['trends', 'correlations', 'summary', 'anomalies'], 'trends', errors
+    ),
+    lag: queryInteger(params, 'lag', 0, 0, 30, errors),
+    minOverlap: queryInteger(params, 'minOverlap', 7, 3, 365, errors),
+    bucket: queryEnum<TrendBucket>(params, 'bucket', ['day', 'week', 'month'], 'day', errors),
+    timezone: queryTimeZone(params, errors),
+    minSeverity: queryEnum<AnomalySeverity>(params, 'minSeverity', ['info', 'warning', 'critical'], 'info', errors)
+  }
+  return errors.length > 0 ? { errors } : { value: query }
+}
+
+export function parseDashboardQuery(params: URLSearchParams): ParseResult<DashboardQuery> {
+  const errors: FieldError[] = []
+  const query: DashboardQuery = {
+    userId: params.get('userId') || undefined,
+    goalId: queryUuid(params, 'goalId', errors),
+    endpoint: queryEnum<DashboardEndpoint>(params, 'endpoint', ['overview', 'summary'], 'overview', errors),
+    timezone: queryTimeZone(params, errors)
+  }
+  return errors.length > 0 ? { errors } : { value: query }
+}
+
+export function parseInsightsQuery(params: URLSearchParams): ParseResult<InsightsQuery> {
+  const errors: FieldError[] = []
+  const query: InsightsQuery = {
+    userId: params.get('userId') || undefined,
+    goalId: queryUuid(params, 'goalId', errors),
+    days: queryInteger(params, 'days', 7, 1, 365, errors),
+    endpoint: queryEnum<InsightsEndpoint>(params, 'endpoint', ['generate', 'recommendations'], 'generate', errors)
+  }
+  return errors.length > 0 ? { errors } : { value: query }
+}
+
+// =============================================
+// FIELD HELPERS
+// =============================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function optionalString(body: Record<string, unknown>, field: string, errors: FieldError[], maxLength?: number) {
+  const value = body[field]
+  if (value === undefined || value === null || value === '') return undefined
+  if (typeof value !== 'string') {
+    errors.push({ field, message: 'must be a string' })
+    return undefined
+  }
+  if (maxLength && value.length > maxLength) {
+    errors.push({ field, message: `must be at most ${maxLength} characters` })
+    return undefined
+  }
+  return value
+}
+
+function optionalUuid(body: Record<string, unknown>, field: string, errors: FieldError[]) {
+  const value = optionalString(body, field, errors)
+  if (value !== undefined && !UUID.test(value)) {
+    errors.push({ field, message: 'must be a UUID' })
+    return undefined
+  }
+  return value
+}
+
+function optionalTimestamp(body: Record<string, unknown>, field: string, errors: FieldError[]) {
+  const value = optionalString(body, field, errors)
+  if (value === undefined) return undefined
+
+  const time = Date.parse(value)
+  if (!ISO_TIMESTAMP.test(value) || Number.isNaN(time)) {
+    errors.push({ field, message: 'must be an ISO 8601 timestamp' })
+    return undefined
+  }
+  if (time > Date.now() + MAX_FUTURE_SKEW_MS) {
+    errors.push({ field, message: 'cannot be in the future' })
+    return undefined
+  }
+  return value
+}
+
+// Deadlines are a date or timestamp that hasn't passed yet
+function optionalDeadline(body: Record<string, unknown>, field: string, errors: FieldError[]) {
+  const value = optionalString(body, field, errors)
+  if (value === undefined) return undefined
+
+  const time = Date.parse(value)
+  if (!ISO_TIMESTAMP.test(value) || Number.isNaN(time)) {
+    errors.push({ field, message: 'must be an ISO 8601 date or timestamp' })
+    return undefined
+  }
+  // A bare date means the end of that day
+  const endOfDeadline = /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + 24 * 60 * 60 * 1000 : time
+  if (endOfDeadline < Date.now()) {
+    errors.push({ field, message: 'must not be in the past' })
+    return undefined
+  }
+  return value
+}
+
+function optionalDaysPerWeek(body: Record<string, unknown>, errors: FieldError[]) {
+  const value = body.expectedDaysPerWeek
+  if (value === undefined) return undefined
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 7) {
+    errors.push({ field: 'expectedDaysPerWeek', message: 'must be an integer between 1 and 7' })
+    return undefined
+  }
+  return value
+}
+
+// Repeated parameters and comma-separated values both work: ?dataType=a,b&dataType=c
+function queryList(params: URLSearchParams, field: string): string[] {
+  const values = params.getAll(field).flatMap(value => value.split(','))
+  return [...new Set(values.map(value => value.trim()).filter(Boolean))]
+}
+
+function queryTimestamp(params: URLSearchParams, field: string, errors: FieldError[]) {
+  const value = params.get(field)
+  if (!value) return undefined
+  if (!ISO_TIMESTAMP.test(value) || Number.isNaN(Date.parse(value))) {
+    errors.push({ field, message: 'must be an ISO 8601 date or timestamp' })
+    return undefined
+  }
+  return value
+}
+
+function queryTimeZone(params: URLSearchParams, errors: FieldError[]) {
+  const value = params.get('timezone')
+  if (!value) return 'UTC'
+  if (!isValidTimeZone(value)) {
+    errors.push({ field: 'timezone', message: 'must be an IANA time zone such as America/New_York' })
+    return 'UTC'
+  }
+  return value
+}
+
+function queryUuid(params: URLSearchParams, field: string, errors: FieldError[]) {
+  const value = params.get(field)
+  if (!value) return undefined
+  if (!UUID.test(value)) {
+    errors.push({ field, message: 'must be a UUID' })
+    return undefined
+  }
+  return value
+}
+
+function queryDataType(params: URLSearchParams, errors: FieldError[]) {
+  const value = params.get('dataType')
+  if (!value) return undefined
+  if (!CUSTOM_DATA_TYPE.test(value)) {
+    errors.push({ field: 'dataType', message: 'must be a lowercase snake_case name' })
+    return undefined
+  }
+  return value
+}
+
+function queryInteger(
+  params: URLSearchParams,
+  field: string,
+  fallback: number,
+  min: number,
+  max: number,
+  errors: FieldError[]
+) {
+  const raw = params.get(field)
+  if (raw === null || raw === '') return fallback
+
+  const value = Number(raw)
+  if (!Number.isInteger(value) || value < min || value > max) {
+    errors.push({ field, message: `must be an integer between ${min} and ${max}` })
+    return fallback
+  }
+  return value
+}
+
+function queryEnum<T extends string>(
+  params: URLSearchParams,
+  field: string,
+  allowed: T[],
+  fallback: T,
+  errors: FieldError[]
+): T {
+  const value = params.get(field)
+  if (!value) return fallback
+  if (!allowed.includes(value as T)) {
+    errors.push({ field, message: `must be one of ${allowed.join(', ')}` })
+    return fallback
+  }
+  return value as T
+}
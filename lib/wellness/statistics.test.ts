@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import {
+  alignSeries,
+  correlationPValue,
+  laggedCorrelation,
+  pearson,
+  ranks,
+  spearman,
+  studentTPValue,
+  tCritical
+} from '@/lib/wellness/statistics'
+
+// Reference values below are from scipy.stats (pearsonr, spearmanr, t.sf, t.ppf)
+const XS = [1, 2, 3, 4, 5]
+const YS = [2, 4, 5, 4, 5]
+
+function series(start: string, values: number[]) {
+  const date = new Date(`${start}T00:00:00Z`)
+  return new Map(values.map(value => {
+    const day = date.toISOString().slice(0, 10)
+    date.setUTCDate(date.getUTCDate() + 1)
+    return [day, value]
+  }))
+}
+
+describe('pearson', () => {
+  it('matches the reference coefficient', () => {
+    expect(pearson(XS, YS)).toBeCloseTo(0.774597, 6)
+  })
+
+  it('is exactly 1 and -1 for perfect linear relationships', () => {
+    expect(pearson(XS, XS.map(x => 3 * x + 1))).toBe(1)
+    expect(pearson(XS, XS.map(x => -2 * x))).toBe(-1)
+  })
+
+  it('is null for a constant series or mismatched lengths', () => {
+    expect(pearson(XS, [3, 3, 3, 3, 3])).toBeNull()
+    expect(pearson(XS, YS.slice(1))).toBeNull()
+    expect(pearson([1], [2])).toBeNull()
+  })
+})
+
+describe('spearman', () => {
+  it('gives tied values their average rank', () => {
+    expect(ranks(YS)).toEqual([1, 2.5, 4.5, 2.5, 4.5])
+  })
+
+  it('matches the reference coefficient with ties', () => {
+    expect(spearman(XS, YS)).toBeCloseTo(0.737865, 6)
+  })
+
+  it('is 1 for any monotonic relationship', () => {
+    expect(spearman(XS, XS.map(x => x ** 3))).toBe(1)
+  })
+})
+
+describe('p-values', () => {
+  it('matches the two-tailed t distribution', () => {
+    expect(studentTPValue(2, 10)).toBeCloseTo(0.073388, 5)
+    expect(studentTPValue(0, 10)).toBeCloseTo(1, 10)
+  })
+
+  it('inverts the p-value for critical t', () => {
+    expect(tCritical(10, 0.05)).toBeCloseTo(2.228139, 5)
+    expect(tCritical(3, 0.05)).toBeCloseTo(3.182446, 5)
+  })
+
+  it('matches the reference correlation p-values', () => {
+    expect(correlationPValue(pearson(XS, YS)!, XS.length)).toBeCloseTo(0.124027, 5)
+    expect(correlationPValue(spearman(XS, YS)!, XS.length)).toBeCloseTo(0.154619, 5)
+  })
+
+  it('is undefined below three points and zero for a perfect fit', () => {
+    expect(correlationPValue(0.5, 2)).toBeNull()
+    expect(correlationPValue(1, 10)).toBe(0)
+  })
+})
+
+describe('alignSeries', () => {
+  const leading = series('2026-10-01', [1, 2, 3, 4])
+  const following = series('2026-10-02', [10, 20, 30, 40])
+
+  it('pairs same-day values without a lag', () => {
+    expect(alignSeries(leading, following)).toEqual({ xs: [2, 3, 4], ys: [10, 20, 30] })
+  })
+
+  it('pairs the leading day with the following metric lag days later', () => {
+    expect(alignSeries(leading, following, 1)).toEqual({ xs: [1, 2, 3, 4], ys: [10, 20, 30, 40] })
+    expect(alignSeries(leading, following, 2)).toEqual({ xs: [1, 2, 3], ys: [20, 30, 40] })
+  })
+
+  it('skips days missing from either series', () => {
+    const gappy = new Map([['2026-10-02', 10], ['2026-10-04', 30]])
+    expect(alignSeries(leading, gappy, 1)).toEqual({ xs: [1, 3], ys: [10, 30] })
+  })
+
+  it('pairs across a month boundary', () => {
+    const lead = new Map([['2026-10-31', 5]])
+    const follow = new Map([['2026-11-01', 7]])
+    expect(alignSeries(lead, follow, 1)).toEqual({ xs: [5], ys: [7] })
+  })
+})
+
+describe('laggedCorrelation', () => {
+  const sleep = series('2026-10-01', [6, 7, 5, 8, 6, 7, 9])
+  // Mood the following day tracks the previous night's sleep exactly
+  const mood = series('2026-10-02', [3, 3.5, 2.5, 4, 3, 3.5, 4.5])
+
+  it('correlates the leading metric with the following one lag days later', () => {
+    const lagged = laggedCorrelation(sleep, mood, 1, 3)
+    expect(lagged.sampleSize).toBe(7)
+    expect(lagged.r).toBeCloseTo(1, 10)
+    expect(lagged.rho).toBeCloseTo(1, 10)
+    expect(laggedCorrelation(sleep, mood, 0, 3).r).toBeLessThan(0.5)
+  })
+
+  it('reports no coefficient below the minimum overlap', () => {
+    expect(laggedCorrelation(sleep, mood, 1, 8)).toEqual({ sampleSize: 7, r: null, rho: null })
+  })
+
+  it('reports a coefficient at exactly the minimum overlap', () => {
+    expect(laggedCorrelation(sleep, mood, 1, 7).r).toBeCloseTo(1, 10)
+  })
+
+  it('counts only overlapping days toward the minimum', () => {
+    // A week of each, but lag 7 leaves a single pair
+    expect(laggedCorrelation(sleep, mood, 7, 2)).toEqual({ sampleSize: 1, r: null, rho: null })
+    expect(laggedCorrelation(sleep, mood, 6, 2).sampleSize).toBe(2)
+    expect(laggedCorrelation(sleep, mood, 6, 2).r).not.toBeNull()
+  })
+})
@@ -0,0 +1,317 @@
+// =============================================
+// STATISTICS
+// =============================================
+
+// Metrics logged several times a day that add up (two walks are one day's steps);
+// everything else is averaged per day.
+const CUMULATIVE_DATA_TYPES = new Set(['steps', 'water', 'exercise', 'calories'])
+
+export interface Reading {
+  data_type: string
+  data: number | string
+  date: string
+}
+
+export function isCumulative(dataType: string) {
+  return CUMULATIVE_DATA_TYPES.has(dataType)
+}
+
+// Calendar day (YYYY-MM-DD) of an instant in the given IANA time zone
+export function localDay(instant: string | Date, timeZone = 'UTC'): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .format(new Date(instant))
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Collapses readings of one data type to one value per local day (YYYY-MM-DD)
+export function dailySeries(readings: Reading[], dataType: string, timeZone = 'UTC'): Map<string, number> {
+  const days = new Map<string, number[]>()
+  for (const reading of readings) {
+    const value = Number(reading.data)
+    if (reading.data_type !== dataType || !Number.isFinite(value)) continue
+
+    const day = localDay(reading.date, timeZone)
+    days.set(day, [...(days.get(day) ?? []), value])
+  }
+
+  const series = new Map<string, number>()
+  for (const [day, values] of days) {
+    const total = values.reduce((sum, value) => sum + value, 0)
+    series.set(day, CUMULATIVE_DATA_TYPES.has(dataType) ? total : total / values.length)
+  }
+  return series
+}
+
+export function shiftDay(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().slice(0, 10)
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000))
+}
+
+// Pairs `leading` on day d with `following` on day d + lag, for days both have a value
+export function alignSeries(leading: Map<string, number>, following: Map<string, number>, lag = 0) {
+  const xs: number[] = []
+  const ys: number[] = []
+  for (const [day, x] of leading) {
+    const y = following.get(shiftDay(day, lag))
+    if (y !== undefined) {
+      xs.push(x)
+      ys.push(y)
+    }
+  }
+  return { xs, ys }
+}
+
+// =============================================
+// DESCRIPTIVE
+// =============================================
+
+export function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+// Sample standard deviation; null below two values
+export function standardDeviation(values: number[]): number | null {
+  if (values.length < 2) return null
+  const average = mean(values)
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1))
+}
+
+// Linear interpolation between closest ranks (the spreadsheet QUARTILE.INC definition)
+export function quantile(values: number[], q: number): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const position = (sorted.length - 1) * q
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+// =============================================
+// CORRELATION
+// =============================================
+
+// Null when either series is constant (or too short), where r is undefined
+export function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length
+  if (n < 2 || ys.length !== n) return null
+
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n
+
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX
+    const dy = ys[i] - meanY
+    covariance += dx * dy
+    varianceX += dx * dx
+    varianceY += dy * dy
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null
+  // Clamp floating-point overshoot so p-values stay defined
+  return Math.max(-1, Math.min(1, covariance / Math.sqrt(varianceX * varianceY)))
+}
+
+// Pearson and Spearman for `leading` on day d against `following` on day d + lag.
+// Both are null below `minOverlap` paired days, however well the few pairs line up.
+export function laggedCorrelation(
+  leading: Map<string, number>,
+  following: Map<string, number>,
+  lag: number,
+  minOverlap: number
+) {
+  const { xs, ys } = alignSeries(leading, following, lag)
+  const r = xs.length >= minOverlap ? pearson(xs, ys) : null
+  return { sampleSize: xs.length, r, rho: r === null ? null : spearman(xs, ys) }
+}
+
+// Pearson on ranks, with tied values sharing their average rank
+export function spearman(xs: number[], ys: number[]): number | null {
+  return pearson(ranks(xs), ranks(ys))
+}
+
+export function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value)
+  const result = new Array<number>(values.length)
+
+  for (let i = 0; i < order.length;) {
+    let j = i
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++
+    const averageRank = (i + j) / 2 + 1
+    for (let k = i; k <= j; k++) result[order[k].index] = averageRank
+    i = j + 1
+  }
+  return result
+}
+
+// =============================================
+// REGRESSION
+// =============================================
+
+export interface Regression {
+  slope: number
+  intercept: number
+  rSquared: number
+  standardError: number | null
+  pValue: number | null
+  // 95% interval for the slope
+  confidenceInterval: [number, number] | null
+  sampleSize: number
+}
+
+// Ordinary least squares of ys on xs. Null with fewer than 2 points or constant xs.
+export function linearRegression(xs: number[], ys: number[]): Regression | null {
+  const n = xs.length
+  if (n < 2 || ys.length !== n) return null
+
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n
+
+  let sxx = 0
+  let sxy = 0
+  let syy = 0
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) ** 2
+    sxy += (xs[i] - meanX) * (ys[i] - meanY)
+    syy += (ys[i] - meanY) ** 2
+  }
+  if (sxx === 0) return null
+
+  const slope = sxy / sxx
+  const intercept = meanY - slope * meanX
+  const residual = Math.max(0, syy - slope * sxy)
+  const rSquared = syy === 0 ? 1 : 1 - residual / syy
+
+  // Slope uncertainty needs at least one residual degree of freedom
+  if (n < 3) {
+    return { slope, intercept, rSquared, standardError: null, pValue: null, confidenceInterval: null, sampleSize: n }
+  }
+
+  const df = n - 2
+  const standardError = Math.sqrt(residual / df / sxx)
+  const pValue = standardError === 0 ? 0 : studentTPValue(slope / standardError, df)
+  const margin = tCritical(df, 0.05) * standardError
+
+  return {
+    slope,
+    intercept,
+    rSquared,
+    standardError,
+    pValue,
+    confidenceInterval: [slope - margin, slope + margin],
+    sampleSize: n
+  }
+}
+
+// Two-tailed p-value of a t statistic
+export function studentTPValue(t: number, df: number): number {
+  return regularizedIncompleteBeta(df / (df + t * t), df / 2, 0.5)
+}
+
+// t such that P(|T| > t) = alpha, found by bisection on the p-value
+export function tCritical(df: number, alpha: number): number {
+  let low = 0
+  let high = 1000
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2
+    if (studentTPValue(mid, df) > alpha) low = mid
+    else high = mid
+  }
+  return (low + high) / 2
+}
+
+// Two-tailed p-value for H0: no correlation, from the t statistic with n - 2 degrees
+// of freedom. Used for Spearman too, where it's the usual large-sample approximation.
+export function correlationPValue(r: number, n: number): number | null {
+  if (n < 3) return null
+  if (Math.abs(r) >= 1) return 0
+
+  const df = n - 2
+  return studentTPValue(r * Math.sqrt(df / (1 - r * r)), df)
+}
+
+// I_x(a, b), evaluated with the continued fraction from Numerical Recipes (betacf)
+function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0
+  if (x >= 1) return 1
+
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x))
+  // The continued fraction converges quickly only on this side; use symmetry otherwise
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(x, a, b)) / a
+  }
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const MAX_ITERATIONS = 200
+  const EPSILON = 3e-14
+  const TINY = 1e-300
+
+  let c = 1
+  let d = 1 - ((a + b) * x) / (a + 1)
+  if (Math.abs(d) < TINY) d = TINY
+  d = 1 / d
+  let h = d
+
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const m2 = 2 * m
+
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2))
+    d = 1 + aa * d
+    if (Math.abs(d) < TINY) d = TINY
+    c = 1 + aa / c
+    if (Math.abs(c) < TINY) c = TINY
+    d = 1 / d
+    h *= d * c
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1))
+    d = 1 + aa * d
+    if (Math.abs(d) < TINY) d = TINY
+    c = 1 + aa / c
+    if (Math.abs(c) < TINY) c = TINY
+    d = 1 / d
+    const delta = d * c
+    h *= delta
+
+    if (Math.abs(delta - 1) < EPSILON) break
+  }
+  return h
+}
+
+// Lanczos approximation (g = 7, n = 9)
+function logGamma(x: number): number {
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7
+  ]
+
+  if (x < 0.5) {
+    // Reflection formula
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x)
+  }
+
+  x -= 1
+  let sum = coefficients[0]
+  for (let i = 1; i < coefficients.length; i++) {
+    sum += coefficients[i] / (x + i)
+  }
+  const t = x + 7.5
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum)
+}
@@ -0,0 +1,138 @@
+import {
+  dailySeries,
+  daysBetween,
+  linearRegression,
+  localDay,
+  Reading,
+  shiftDay
+} from '@/lib/wellness/statistics'
+import type { MovingAveragePoint, TrendBucket, TrendBucketPoint, TrendSeries } from '@/lib/wellness/types'
+
+// =============================================
+// TREND SERIES
+// =============================================
+
+// A fitted change smaller than this share of the mean over the period reads as stable
+const STABLE_CHANGE_RATIO = 0.02
+const SIGNIFICANCE_LEVEL = 0.05
+
+// Chart-ready series for one data type: readings are first reduced to one value per
+// local day (summed for cumulative metrics like steps, averaged otherwise), then
+// bucketed, fitted and smoothed.
+export function buildTrendSeries(
+  readings: Array<Reading & { unit?: string | null }>,
+  dataType: string,
+  options: { bucket: TrendBucket; timeZone: string }
+): TrendSeries {
+  const typeReadings = readings.filter(reading => reading.data_type === dataType)
+  const daily = [...dailySeries(typeReadings, dataType, options.timeZone)].sort(([a], [b]) => a.localeCompare(b))
+
+  const readingsPerDay = new Map<string, number>()
+  for (const reading of typeReadings) {
+    const day = localDay(reading.date, options.timeZone)
+    readingsPerDay.set(day, (readingsPerDay.get(day) ?? 0) + 1)
+  }
+
+  const buckets = new Map<string, { values: number[]; count: number }>()
+  for (const [day, value] of daily) {
+    const start = bucketStart(day, options.bucket)
+    const bucket = buckets.get(start) ?? { values: [], count: 0 }
+    bucket.values.push(value)
+    bucket.count += readingsPerDay.get(day) ?? 0
+    buckets.set(start, bucket)
+  }
+
+  const bucketPoints: TrendBucketPoint[] = [...buckets].map(([start, { values, count }]) => ({
+    start,
+    mean: round(values.reduce((sum, value) => sum + value, 0) / values.length),
+    min: round(Math.min(...values)),
+    max: round(Math.max(...values)),
+    count
+  }))
+
+  // Fit on daily values so the slope is per day whatever the bucket size
+  const firstDay = daily[0]?.[0]
+  const regression = firstDay
+    ? linearRegression(daily.map(([day]) => daysBetween(firstDay, day)), daily.map(([, value]) => value))
+    : null
+
+  return {
+    dataType,
+    unit: typeReadings.find(reading => reading.unit)?.unit ?? null,
+    bucket: options.bucket,
+    timezone: options.timeZone,
+    buckets: bucketPoints,
+    regression: regression && {
+      slopePerDay: round(regression.slope, 4),
+      intercept: round(regression.intercept, 4),
+      rSquared: round(regression.rSquared, 4),
+      standardError: regression.standardError === null ? null : round(regression.standardError, 4),
+      pValue: regression.pValue === null ? null : round(regression.pValue, 4),
+      confidenceInterval: regression.confidenceInterval &&
+        [round(regression.confidenceInterval[0], 4), round(regression.confidenceInterval[1], 4)],
+      sampleSize: regression.sampleSize
+    },
+    movingAverages: {
+      days7: movingAverage(daily, 7),
+      days30: movingAverage(daily, 30)
+    },
+    trend: trendLabel(daily.map(([, value]) => value), regression, daily.length > 0 ? daysBetween(firstDay!, daily[daily.length - 1][0]) : 0)
+  }
+}
+
+// Label for the fitted trend of one value per day, without the chart series
+export function dailyTrend(readings: Reading[], dataType: string, timeZone = 'UTC'): TrendSeries['trend'] {
+  const daily = [...dailySeries(readings, dataType, timeZone)].sort(([a], [b]) => a.localeCompare(b))
+  if (daily.length < 2) return 'insufficient_data'
+
+  const firstDay = daily[0][0]
+  const regression = linearRegression(daily.map(([day]) => daysBetween(firstDay, day)), daily.map(([, value]) => value))
+  return trendLabel(daily.map(([, value]) => value), regression, daysBetween(firstDay, daily[daily.length - 1][0]))
+}
+
+export function trendLabel(
+  values: number[],
+  regression: ReturnType<typeof linearRegression>,
+  spanDays: number
+): TrendSeries['trend'] {
+  if (!regression || regression.sampleSize < 3 || regression.pValue === null) return 'insufficient_data'
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  const fittedChange = regression.slope * spanDays
+  if (regression.pValue >= SIGNIFICANCE_LEVEL || Math.abs(fittedChange) <= Math.abs(mean) * STABLE_CHANGE_RATIO) {
+    return 'stable'
+  }
+  return fittedChange > 0 ? 'increasing' : 'decreasing'
+}
+
+// Weeks start on Monday (ISO 8601)
+export function bucketStart(day: string, bucket: TrendBucket): string {
+  switch (bucket) {
+    case 'day':
+      return day
+    case 'week':
+      return shiftDay(day, -((new Date(`${day}T00:00:00Z`).getUTCDay() + 6) % 7))
+    case 'month':
+      return `${day.slice(0, 7)}-01`
+  }
+}
+
+// Trailing calendar-day window ending on each day that has data; days without
+// data inside the window are skipped rather than counted as zero
+function movingAverage(daily: Array<[string, number]>, windowDays: number): MovingAveragePoint[] {
+  return daily.map(([day], i) => {
+    const windowStart = shiftDay(day, -(windowDays - 1))
+    let sum = 0
+    let count = 0
+    for (let j = i; j >= 0 && daily[j][0] >= windowStart; j--) {
+      sum += daily[j][1]
+      count++
+    }
+    return { date: day, value: round(sum / count) }
+  })
+}
+
+function round(value: number, digits = 2) {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
@@ -0,0 +1,706 @@
+// =============================================
+// WELLNESS API CONTRACTS
+// =============================================
+
+// Request and response shapes for /api/wellness/*. This file has no runtime
+// imports so the web client can consume it as-is; lib/wellness/schema.ts validates
+// incoming payloads against the same types. `npm run generate:schema` derives
+// schemas/wellness.schema.json from it for the iOS client, and the tests fail when
+// that file is stale or a validator's output no longer fits it.
+
+export type HealthDataType =
+  | 'weight'
+  | 'height'
+  | 'bmi'
+  | 'blood_pressure_systolic'
+  | 'blood_pressure_diastolic'
+  | 'heart_rate'
+  | 'respiratory_rate'
+  | 'body_temperature'
+  | 'oxygen_saturation'
+  | 'glucose'
+  | 'a1c'
+  | 'cholesterol_total'
+  | 'cholesterol_hdl'
+  | 'cholesterol_ldl'
+  | 'triglycerides'
+  | 'steps'
+  | 'sleep'
+  | 'water'
+  | 'exercise'
+  | 'calories'
+  | 'mood'
+
+// 'manual' for entries logged in the app, otherwise the EHR vendor id
+export type HealthDataSource = 'manual' | 'epic' | 'cerner' | (string & {})
+
+export interface HealthDataRecord {
+  id: string
+  user_id: string
+  // Known types are validated against their rules; custom snake_case types are accepted too
+  data_type: HealthDataType | (string & {})
+  data: number
+  unit: string | null
+  notes: string | null
+  goal_id: string | null
+  date: string
+  source: HealthDataSource
+  source_resource_id?: string | null
+  idempotency_key?: string | null
+  tags: string[]
+  is_private: boolean
+  created_at: string
+  updated_at?: string | null
+  // Soft-deleted rows are hidden from every read
+  deleted_at?: string | null
+  // Scored when the reading is saved or edited; empty when nothing stood out
+  anomaly_flags?: AnomalyFlag[]
+  // Highest severity among anomaly_flags
+  anomaly_severity?: AnomalySeverity | null
+  // Normal range reported with a synced EHR Observation, in this row's unit
+  reference_low?: number | null
+  reference_high?: number | null
+}
+
+export type AnomalySeverity = 'info' | 'warning' | 'critical'
+
+export interface AnomalyFlag {
+  // 'baseline': unusual for this user's last 30 days; 'reference_range': outside the
+  // clinical normal range for the data type
+  kind: 'baseline' | 'reference_range'
+  severity: AnomalySeverity
+  message: string
+  // The range the value fell outside: IQR fences for baseline flags, the normal
+  // (or critical) range for reference_range flags. null when unbounded on that side.
+  low: number | null
+  high: number | null
+  // baseline only
+  zScore?: number | null
+  baselineMean?: number
+  baselineDays?: number
+  // reference_range only: the app's default range, or one sent by the EHR
+  rangeSource?: 'default' | 'ehr'
+}
+
+export interface HealthDataAuditEntry {
+  id: string
+  health_data_id: string
+  user_id: string
+  action: 'update' | 'delete'
+  previous: Partial<HealthDataRecord>
+  changes: Partial<HealthDataRecord>
+  created_at: string
+}
+
+export type GoalStatus = 'active' | 'paused' | 'completed' | 'archived'
+
+export type GoalDirection = 'increase' | 'decrease' | 'maintain'
+
+export interface HealthGoalRecord {
+  id: string
+  user_id: string
+  title: string
+  description: string | null
+  status: GoalStatus
+  // Goals created before targets existed have no data_type and no progress
+  data_type: HealthDataType | (string & {}) | null
+  target_value: number | null
+  unit: string | null
+  direction: GoalDirection | null
+  // Where the user started; progress is measured from here toward target_value
+  baseline_value: number | null
+  deadline: string | null
+  // Days a week the user means to log the goal's data type; adherence is measured against it
+  expected_days_per_week: number
+  created_at: string
+  updated_at: string | null
+  completed_at: string | null
+}
+
+export interface GoalProgress {
+  // Most recent day's value of the goal's data type: the day's total for cumulative
+  // types like steps, its mean otherwise
+  current: number | null
+  baseline: number | null
+  target: number
+  // 0-100. For 'maintain' goals, the share of days within tolerance of the target
+  percent: number
+  achieved: boolean
+  dataPoints: number
+  lastRecordedAt: string | null
+}
+
+export interface HealthGoalWithProgress extends HealthGoalRecord {
+  progress: GoalProgress | null
+}
+
+// 'ahead' / 'on_track' / 'behind' compare the projected date with the deadline; a goal
+// without a deadline is on track while its trend heads toward the target.
+// 'maintain' goals are on track while the trend stays within tolerance of the target.
+export type GoalForecastStatus = 'achieved' | 'ahead' | 'on_track' | 'behind' | 'insufficient_data'
+
+export interface GoalForecast {
+  status: GoalForecastStatus
+  // Fitted change per day over recent daily values, in the goal's unit
+  slopePerDay: number | null
+  // YYYY-MM-DD the fitted trend reaches the target; null if it never does
+  projectedDate: string | null
+  // Same projection at either end of the slope's 95% interval. latest is null when
+  // the slower end of the interval never reaches the target.
+  projectedRange: { earliest: string | null; latest: string | null } | null
+  // Where the fitted trend will be on the deadline
+  projectedValueAtDeadline: number | null
+  deadline: string | null
+  daysRemaining: number | null
+  // Days with at least one reading that went into the fit
+  sampleSize: number
+}
+
+export interface HealthGoalWithForecast extends HealthGoalWithProgress {
+  forecast: GoalForecast | null
+}
+
+// =============================================
+// ERRORS
+// =============================================
+
+export interface FieldError {
+  field: string
+  message: string
+}
+
+export interface ApiErrorResponse {
+  error: string
+  details?: string
+  // Present on 400s from schema validation, one entry per invalid field
+  fields?: FieldError[]
+}
+
+// =============================================
+// /api/wellness/data
+// =============================================
+
+export interface LogHealthDataRequest {
+  // Optional; must match the authenticated user when sent
+  userId?: string
+  dataType: HealthDataType | (string & {})
+  value: number
+  unit?: string
+  notes?: string
+  goalId?: string
+  timestamp?: string
+  // Client-generated key; resending an entry with the same key doesn't create a duplicate.
+  // A key stays used after its entry is deleted.
+  idempotencyKey?: string
+}
+
+export interface LogHealthDataResponse {
+  success: true
+  data: HealthDataRecord[]
+  message: string
+  anomalies: AnomalyFlag[]
+}
+
+// PATCH /api/wellness/data/:id - only manually logged entries can be edited.
+// null clears unit, notes or goalId.
+export interface UpdateHealthDataRequest {
+  userId?: string
+  dataType?: HealthDataType | (string & {})
+  value?: number
+  unit?: string | null
+  notes?: string | null
+  goalId?: string | null
+  timestamp?: string
+}
+
+export interface HealthDataEntryResponse {
+  success: true
+  data: HealthDataRecord
+  history: HealthDataAuditEntry[]
+}
+
+export interface UpdateHealthDataResponse {
+  success: true
+  data: HealthDataRecord
+  message: string
+}
+
+export interface DeleteHealthDataResponse {
+  success: true
+  id: string
+  deletedAt: string
+}
+
+// POST /api/wellness/data/batch
+export interface BatchHealthDataRequest {
+  userId?: string
+  entries: LogHealthDataRequest[]
+  // Validate and report what would happen without writing anything
+  dryRun?: boolean
+}
+
+export type BatchItemStatus =
+  | 'created'
+  // Dry run only: the entry is valid and would be created
+  | 'valid'
+  // An entry with the same idempotencyKey already exists (or appeared earlier in the batch)
+  | 'duplicate'
+  // The idempotencyKey is taken by a different reading, or by an entry that was deleted
+  | 'conflict'
+  | 'invalid'
+  | 'failed'
+
+export interface BatchItemResult {
+  index: number
+  // 1-based line in an imported CSV file
+  line?: number
+  status: BatchItemStatus
+  id?: string
+  errors?: FieldError[]
+  // Only present when the entry was flagged
+  anomalies?: AnomalyFlag[]
+}
+
+export interface BatchSummary {
+  total: number
+  created: number
+  valid: number
+  duplicates: number
+  conflicts: number
+  invalid: number
+  failed: number
+}
+
+export interface BatchHealthDataResponse {
+  success: true
+  dryRun: boolean
+  summary: BatchSummary
+  results: BatchItemResult[]
+}
+
+// POST /api/wellness/data/import - multipart `file` field, or a raw text/csv or
+// application/json body. CSV needs a header row naming the LogHealthDataRequest fields.
+export type ImportFormat = 'csv' | 'json'
+
+export interface ImportHealthDataResponse extends BatchHealthDataResponse {
+  format: ImportFormat
+}
+
+export type HealthDataSort = 'date_desc' | 'date_asc'
+
+// GET /api/wellness/data. dataType and source accept several values, either
+// comma-separated or as repeated parameters. `from`/`to` filter on the measurement
+// date (a bare `to` date includes that whole day); without either, the last `days`
+// days are returned. Pass `nextCursor` back as `cursor` for the next page.
+export interface HealthDataQuery {
+  userId?: string
+  goalId?: string
+  dataTypes: string[]
+  sources: string[]
+  from?: string
+  to?: string
+  days?: number
+  sort: HealthDataSort
+  cursor?: string
+  limit: number
+}
+
+export interface HealthDataListResponse {
+  success: true
+  data: HealthDataRecord[]
+  count: number
+  period: string
+  // Null on the last page
+  nextCursor: string | null
+}
+
+// =============================================
+// /api/wellness/goals
+// =============================================
+
+export interface CreateGoalRequest {
+  userId?: string
+  title: string
+  description?: string
+  dataType: HealthDataType | (string & {})
+  targetValue: number
+  unit?: string
+  direction: GoalDirection
+  // Defaults to the latest day's value before the goal was created: a day's total for
+  // cumulative types, taken from the last complete day in the request's timezone
+  baselineValue?: number
+  deadline?: string
+  // 1-7, defaults to 7 (every day)
+  expectedDaysPerWeek?: number
+}
+
+// PATCH /api/wellness/goals/:id. Setting status pauses, resumes, completes or archives
+// the goal; null clears description, baselineValue or deadline.
+export interface UpdateGoalRequest {
+  userId?: string
+  title?: string
+  description?: string | null
+  targetValue?: number
+  unit?: string
+  direction?: GoalDirection
+  baselineValue?: number | null
+  deadline?: string | null
+  expectedDaysPerWeek?: number
+  status?: GoalStatus
+}
+
+export interface GoalsQuery {
+  userId?: string
+  status?: GoalStatus
+  // IANA zone that decides which day a reading counts toward, as on the dashboard
+  timezone: string
+}
+
+// GET, PATCH and DELETE /api/wellness/goals/:id
+export interface GoalQuery {
+  userId?: string
+  timezone: string
+}
+
+export interface GoalListResponse {
+  success: true
+  goals: HealthGoalWithProgress[]
+  count: number
+}
+
+export interface GoalResponse {
+  success: true
+  goal: HealthGoalWithProgress
+  message?: string
+}
+
+export interface GoalForecastQuery {
+  userId?: string
+  // IANA zone that decides which day a reading counts toward, as on the dashboard
+  timezone: string
+}
+
+// GET /api/wellness/goals/:id/forecast
+export interface GoalForecastResponse {
+  success: true
+  goal: HealthGoalWithForecast
+  // Daily values the forecast was fitted on, oldest first
+  history: Array<{ date: string; value: number }>
+}
+
+// =============================================
+// /api/wellness/analytics
+// =============================================
+
+export type AnalyticsEndpoint = 'trends' | 'correlations' | 'summary' | 'anomalies'
+
+export interface AnalyticsQuery {
+  userId?: string
+  goalId?: string
+  dataType?: string
+  days: number
+  endpoint: AnalyticsEndpoint
+  // correlations: compare metric1 on day d with metric2 on day d + lag
+  lag: number
+  // correlations: fewest overlapping days a pair needs to be reported
+  minOverlap: number
+  // trends: bucket size for the chart series
+  bucket: TrendBucket
+  // IANA zone used to decide which day a reading falls on
+  timezone: string
+  // anomalies: leave out flags below this severity
+  minSeverity: AnomalySeverity
+}
+
+export interface TrendResult {
+  trend: 'increasing' | 'decreasing' | 'stable' | 'no_data'
+  change: number
+  firstPeriod?: number
+  secondPeriod?: number
+}
+
+export type TrendBucket = 'day' | 'week' | 'month'
+
+// mean/min/max are over daily values (daily totals for cumulative metrics such as
+// steps); count is the number of readings in the bucket
+export interface TrendBucketPoint {
+  start: string
+  mean: number
+  min: number
+  max: number
+  count: number
+}
+
+export interface TrendRegression {
+  slopePerDay: number
+  intercept: number
+  rSquared: number
+  standardError: number | null
+  pValue: number | null
+  // 95% interval for slopePerDay
+  confidenceInterval: [number, number] | null
+  sampleSize: number
+}
+
+export interface MovingAveragePoint {
+  date: string
+  value: number
+}
+
+export interface TrendSeries {
+  dataType: string
+  unit: string | null
+  bucket: TrendBucket
+  timezone: string
+  buckets: TrendBucketPoint[]
+  regression: TrendRegression | null
+  movingAverages: { days7: MovingAveragePoint[]; days30: MovingAveragePoint[] }
+  trend: 'increasing' | 'decreasing' | 'stable' | 'insufficient_data'
+}
+
+export interface AnalyticsTrendsResponse {
+  success: true
+  // Single label across the filtered data, kept for older clients; prefer `series`
+  trends: TrendResult
+  series: TrendSeries[]
+  bucket: TrendBucket
+  timezone: string
+  days: number
+  startDate: string
+  endDate: string
+  dataPoints: number
+}
+
+export interface CorrelationCoefficient {
+  coefficient: number
+  // Two-tailed, against the null hypothesis of no correlation
+  pValue: number | null
+}
+
+export interface CorrelationResult {
+  // With a lag, metric1 is the leading metric
+  metric1: string
+  metric2: string
+  lagDays: number
+  // Days on which both metrics have a value
+  sampleSize: number
+  pearson: CorrelationCoefficient
+  spearman: CorrelationCoefficient | null
+  // Pearson r, kept for older clients
+  correlation: number
+  strength: 'strong' | 'moderate' | 'weak'
+  significant: boolean
+}
+
+export interface AnalyticsCorrelationsResponse {
+  success: true
+  correlations: CorrelationResult[]
+  // Pairs left out because they overlap on fewer than minOverlap days or one is constant
+  insufficientData: Array<{ metric1: string; metric2: string; sampleSize: number }>
+  lagDays: number
+  minOverlap: number
+  dataPoints: number
+}
+
+export interface AnomalousEntry {
+  id: string
+  dataType: string
+  value: number
+  unit: string | null
+  date: string
+  source: HealthDataSource
+  severity: AnomalySeverity
+  flags: AnomalyFlag[]
+}
+
+export interface AnalyticsAnomaliesResponse {
+  success: true
+  // Newest first
+  anomalies: AnomalousEntry[]
+  counts: Record<AnomalySeverity, number>
+  days: number
+  startDate: string
+  endDate: string
+}
+
+export interface AnalyticsSummaryResponse {
+  success: true
+  summary: {
+    totalEntries: number
+    dataTypes: string[]
+    averageValue: number
+    dateRange: { start: string | null; end: string | null }
+  }
+  dataPoints: number
+}
+
+// =============================================
+// /api/wellness/dashboard
+// =============================================
+
+export type DashboardEndpoint = 'overview' | 'summary'
+
+export interface DashboardQuery {
+  userId?: string
+  goalId?: string
+  endpoint: DashboardEndpoint
+  // IANA zone that decides which day a reading counts toward for streaks and missed days
+  timezone: string
+}
+
+export interface DashboardMetrics {
+  totalDataPoints: number
+  dataTypes: number
+  activeGoals: number
+  lastEntry: string | null
+  completionRate: number
+  // Overall logging streak, as in consistency.overall
+  currentStreak: number
+  // Average weekly adherence across active goals, 0-100; null without goals to measure
+  adherence: number | null
+  // Active goals by forecast status
+  goalForecasts: Record<GoalForecastStatus, number>
+}
+
+export interface StreakStats {
+  // Consecutive days logged up to today; today doesn't break a streak until it's over
+  current: number
+  // Longest run inside the consistency window
+  longest: number
+  // YYYY-MM-DD in the requested timezone
+  lastLoggedDay: string | null
+}
+
+export interface LoggingConsistency extends StreakStats {
+  daysLogged: number
+  // Days since tracking started (at most the last 30) with no reading, oldest first
+  missedDays: string[]
+}
+
+export interface DataTypeConsistency extends LoggingConsistency {
+  dataType: string
+}
+
+export interface WeeklyAdherence {
+  // Monday, YYYY-MM-DD
+  weekStart: string
+  daysLogged: number
+  // The goal's expected days, prorated for a partial week
+  expectedDays: number
+  // 0-100
+  percent: number
+}
+
+export interface GoalConsistency extends LoggingConsistency {
+  goalId: string
+  title: string
+  dataType: string
+  expectedDaysPerWeek: number
+  // Oldest first, ending with the current week
+  weeklyAdherence: WeeklyAdherence[]
+  // Average over weeklyAdherence; null before the goal's first full day
+  adherence: number | null
+}
+
+export interface DashboardConsistency {
+  timezone: string
+  // How far back streaks are looked for
+  windowDays: number
+  // Days with any reading at all
+  overall: LoggingConsistency
+  dataTypes: DataTypeConsistency[]
+  // Active goals that track a data type
+  goals: GoalConsistency[]
+}
+
+export interface DashboardOverviewResponse {
+  success: true
+  goals: HealthGoalWithForecast[]
+  recentData: HealthDataRecord[]
+  metrics: DashboardMetrics
+  consistency: DashboardConsistency
+  lastUpdated: string
+}
+
+export interface DashboardSummaryResponse {
+  success: true
+  summary: {
+    totalGoals: number
+    activeGoals: number
+    completedGoals: number
+    totalDataPoints: number
+    dataTypes: number
+    trends: Array<{ type: string; count: number; trend: 'increasing' | 'decreasing' | 'stable' | 'insufficient_data' }>
+    averageEntriesPerDay: number
+    // One per active goal with a target
+    goalForecasts: Array<{ goalId: string; title: string } & GoalForecast>
+    consistency: DashboardConsistency
+  }
+  dataPoints: number
+  period: string
+}
+
+// =============================================
+// /api/wellness/insights
+// =============================================
+
+export type InsightsEndpoint = 'generate' | 'recommendations'
+
+export interface InsightsQuery {
+  userId?: string
+  goalId?: string
+  days: number
+  endpoint: InsightsEndpoint
+}
+
+export interface GenerateInsightsRequest {
+  userId?: string
+  goalId?: string
+  days?: number
+}
+
+// 'ai' when a model's output passed validation (possibly after one repair), 'rules' from
+// the offline rule-based provider, otherwise 'fallback' for the built-in generic content
+export type InsightsSource = 'ai' | 'rules' | 'fallback'
+
+export type RecommendationPriority = 'high' | 'medium' | 'low'
+
+// A data point behind a recommendation, e.g. { dataType: 'steps', observation: 'averaged 4,200 a day' }
+export interface InsightEvidence {
+  dataType: string | null
+  observation: string
+}
+
+export interface Recommendation {
+  title: string
+  description: string
+  priority: RecommendationPriority
+  // Empty for fallback recommendations, which aren't based on the user's data
+  evidence: InsightEvidence[]
+}
+
+export interface Insights {
+  patterns: string[]
+  improvements: string[]
+  progress: string[]
+  recommendations: Recommendation[]
+}
+
+export interface InsightsResponse {
+  success: true
+  insights: Insights
+  source: InsightsSource
+  // Model that produced the insights; null for rule-based and fallback content
+  model: string | null
+  dataPoints: number
+  period: string
+}
+
+export interface RecommendationsResponse {
+  success: true
+  recommendations: Recommendation[]
+  source: InsightsSource
+  model: string | null
+  dataPoints: number
+  period: string
+}
@@ -0,0 +1,18 @@
+-- Pending SMART on FHIR authorizations. Rows are written by /api/epic/oauth/authorize
+-- and consumed exactly once by the matching callback.
+create table if not exists smart_launch_sessions (
+  state          text primary key,
+  vendor         text not null,
+  code_verifier  text not null,
+  redirect_uri   text not null,
+  iss            text not null,
+  token_endpoint text not null,
+  launch         text,
+  client         text not null check (client in ('ios', 'web')),
+  created_at     timestamptz not null default now(),
+  expires_at     timestamptz not null,
+  consumed_at    timestamptz
+);
+
+create index if not exists smart_launch_sessions_expires_at_idx
+  on smart_launch_sessions (expires_at);
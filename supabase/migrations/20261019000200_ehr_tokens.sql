@@ -0,0 +1,18 @@
+-- Encrypted EHR access/refresh tokens, one row per user and vendor.
+-- Token columns hold AES-256-GCM ciphertext (see lib/ehr/token-vault.ts); never plaintext.
+create table if not exists ehr_tokens (
+  user_id           text not null,
+  vendor            text not null,
+  patient_fhir_id   text,
+  fhir_base         text not null,
+  token_endpoint    text not null,
+  access_token_enc  text not null,
+  refresh_token_enc text,
+  token_type        text,
+  scopes            text[] not null default '{}',
+  expires_at        timestamptz,
+  updated_at        timestamptz not null default now(),
+  primary key (user_id, vendor)
+);
+
+alter table smart_launch_sessions add column if not exists user_id text;
@@ -0,0 +1,14 @@
+-- Record which EHR each synced FHIR resource came from now that Cerner syncs
+-- into the same tables as Epic.
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'medication_requests', 'medications', 'medication_statements', 'observations',
+    'diagnostic_reports', 'procedures', 'goals', 'conditions', 'careplans', 'immunizations'
+  ]
+  loop
+    execute format('alter table %I add column if not exists vendor text', t);
+  end loop;
+end $$;
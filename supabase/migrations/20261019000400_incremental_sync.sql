@@ -0,0 +1,25 @@
+-- Per-resource sync cursors for `_lastUpdated` incremental pulls.
+create table if not exists ehr_sync_state (
+  vendor          text not null,
+  patient_fhir_id text not null,
+  resource_type   text not null,
+  last_synced_at  timestamptz not null,
+  updated_at      timestamptz not null default now(),
+  primary key (vendor, patient_fhir_id, resource_type)
+);
+
+-- Keep the server's meta.lastUpdated on each row, and stop rewriting created_at on upsert.
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'medication_requests', 'medications', 'medication_statements', 'observations',
+    'diagnostic_reports', 'procedures', 'goals', 'conditions', 'careplans', 'immunizations'
+  ]
+  loop
+    execute format('alter table %I add column if not exists last_updated timestamptz', t);
+    execute format('alter table %I add column if not exists synced_at timestamptz', t);
+    execute format('alter table %I alter column created_at set default now()', t);
+  end loop;
+end $$;
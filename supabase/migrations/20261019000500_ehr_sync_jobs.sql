@@ -0,0 +1,24 @@
+-- Background FHIR sync jobs enqueued by the OAuth callback and drained by
+-- /api/ehr/sync/worker.
+create table if not exists ehr_sync_jobs (
+  id              uuid primary key default gen_random_uuid(),
+  user_id         text not null,
+  vendor          text not null,
+  patient_fhir_id text not null,
+  status          text not null default 'queued'
+                  check (status in ('queued', 'running', 'succeeded', 'failed')),
+  attempts        integer not null default 0,
+  max_attempts    integer not null default 5,
+  run_after       timestamptz not null default now(),
+  locked_at       timestamptz,
+  progress        jsonb not null default '{}',
+  last_error      text,
+  created_at      timestamptz not null default now(),
+  updated_at      timestamptz not null default now(),
+  finished_at     timestamptz
+);
+
+create index if not exists ehr_sync_jobs_queue_idx
+  on ehr_sync_jobs (status, run_after);
+create index if not exists ehr_sync_jobs_user_vendor_idx
+  on ehr_sync_jobs (user_id, vendor);
@@ -0,0 +1,5 @@
+-- Observations now cover vitals, social history, surveys and activity as well as labs.
+alter table observations add column if not exists category text;
+
+create index if not exists observations_patient_category_idx
+  on observations (patient_fhir_id, category);
@@ -0,0 +1,13 @@
+-- Encounters referenced by synced resources (resolved by id, not searched).
+create table if not exists encounters (
+  id              text primary key,
+  patient_fhir_id text not null,
+  vendor          text,
+  resource_data   jsonb not null,
+  status          text,
+  last_updated    timestamptz,
+  synced_at       timestamptz,
+  created_at      timestamptz not null default now()
+);
+
+create index if not exists encounters_patient_idx on encounters (patient_fhir_id);
@@ -0,0 +1,91 @@
+-- Typed columns populated by lib/ehr/normalize.ts next to resource_data.
+
+-- Shared code columns on every synced table
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'medication_requests', 'medications', 'medication_statements', 'observations',
+    'diagnostic_reports', 'procedures', 'goals', 'conditions', 'careplans', 'immunizations',
+    'encounters'
+  ]
+  loop
+    execute format('alter table %I add column if not exists code_system text', t);
+    execute format('alter table %I add column if not exists code text', t);
+    execute format('alter table %I add column if not exists code_display text', t);
+  end loop;
+end $$;
+
+alter table observations
+  add column if not exists effective_at   timestamptz,
+  add column if not exists value_numeric  double precision,
+  add column if not exists value_unit     text,
+  add column if not exists value_text     text,
+  add column if not exists interpretation text,
+  add column if not exists reference_low  double precision,
+  add column if not exists reference_high double precision;
+
+create index if not exists observations_patient_code_effective_idx
+  on observations (patient_fhir_id, code, effective_at);
+
+alter table medication_requests
+  add column if not exists intent      text,
+  add column if not exists authored_on timestamptz,
+  add column if not exists dosage_text text,
+  add column if not exists dose_value  double precision,
+  add column if not exists dose_unit   text,
+  add column if not exists frequency   integer,
+  add column if not exists period      double precision,
+  add column if not exists period_unit text,
+  add column if not exists route       text,
+  add column if not exists as_needed   boolean;
+
+alter table medication_statements
+  add column if not exists effective_at timestamptz,
+  add column if not exists dosage_text  text,
+  add column if not exists dose_value   double precision,
+  add column if not exists dose_unit    text,
+  add column if not exists frequency    integer,
+  add column if not exists period       double precision,
+  add column if not exists period_unit  text,
+  add column if not exists route        text,
+  add column if not exists as_needed    boolean;
+
+alter table medications
+  add column if not exists form text;
+
+alter table conditions
+  add column if not exists category            text,
+  add column if not exists clinical_status     text,
+  add column if not exists verification_status text,
+  add column if not exists onset_at            timestamptz,
+  add column if not exists abatement_at        timestamptz,
+  add column if not exists recorded_date       timestamptz;
+
+alter table diagnostic_reports
+  add column if not exists category     text,
+  add column if not exists effective_at timestamptz,
+  add column if not exists issued_at    timestamptz;
+
+alter table procedures
+  add column if not exists performed_at timestamptz;
+
+alter table goals
+  add column if not exists lifecycle_status text,
+  add column if not exists start_date       date,
+  add column if not exists due_date         date;
+
+alter table careplans
+  add column if not exists title        text,
+  add column if not exists intent       text,
+  add column if not exists period_start timestamptz,
+  add column if not exists period_end   timestamptz;
+
+alter table immunizations
+  add column if not exists occurrence_at timestamptz;
+
+alter table encounters
+  add column if not exists encounter_class text,
+  add column if not exists period_start    timestamptz,
+  add column if not exists period_end      timestamptz;
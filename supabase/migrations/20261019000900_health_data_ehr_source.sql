@@ -0,0 +1,6 @@
+-- Link health_data rows projected from EHR Observations back to their FHIR resource,
+-- so re-syncs update in place instead of duplicating.
+alter table health_data add column if not exists source_resource_id text;
+
+create unique index if not exists health_data_ehr_source_idx
+  on health_data (user_id, source, source_resource_id, data_type);
@@ -0,0 +1,17 @@
+-- Links a WellThread user to the EHR patient they signed in as. One link per
+-- user and vendor (matching ehr_tokens); a FHIR patient belongs to at most one user.
+create table if not exists ehr_patient_links (
+  id              uuid primary key default gen_random_uuid(),
+  user_id         text not null,
+  vendor          text not null,
+  patient_fhir_id text not null,
+  fhir_base       text not null,
+  patient_name    text,
+  linked_at       timestamptz not null default now(),
+  updated_at      timestamptz not null default now(),
+  unique (user_id, vendor),
+  unique (vendor, patient_fhir_id)
+);
+
+create index if not exists ehr_patient_links_user_idx
+  on ehr_patient_links (user_id);
@@ -0,0 +1,7 @@
+-- Client-supplied idempotency keys so retried uploads from the app don't insert
+-- the same measurement twice.
+alter table health_data add column if not exists idempotency_key text;
+
+create unique index if not exists health_data_user_idempotency_key_idx
+  on health_data (user_id, idempotency_key)
+  where idempotency_key is not null;
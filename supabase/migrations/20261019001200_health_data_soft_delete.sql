@@ -0,0 +1,22 @@
+-- Soft delete for health_data plus an audit trail of every edit and deletion.
+alter table health_data add column if not exists deleted_at timestamptz;
+alter table health_data add column if not exists updated_at timestamptz;
+
+create index if not exists health_data_user_live_idx
+  on health_data (user_id, date)
+  where deleted_at is null;
+
+create table if not exists health_data_audit (
+  id              uuid primary key default gen_random_uuid(),
+  health_data_id  uuid not null references health_data (id) on delete cascade,
+  user_id         text not null,
+  action          text not null check (action in ('update', 'delete')),
+  -- Values of the changed columns before the action
+  previous        jsonb not null,
+  -- New values for updates; empty for deletes
+  changes         jsonb not null default '{}',
+  created_at      timestamptz not null default now()
+);
+
+create index if not exists health_data_audit_entry_idx
+  on health_data_audit (health_data_id, created_at);
@@ -0,0 +1,27 @@
+-- Measurable goals: what data type a goal tracks, the target and direction, and
+-- the lifecycle the goals API moves it through.
+create table if not exists health_goals (
+  id          uuid primary key default gen_random_uuid(),
+  user_id     text not null,
+  title       text not null,
+  status      text not null default 'active',
+  created_at  timestamptz not null default now()
+);
+
+alter table health_goals add column if not exists description text;
+alter table health_goals add column if not exists data_type text;
+alter table health_goals add column if not exists target_value numeric;
+alter table health_goals add column if not exists unit text;
+alter table health_goals add column if not exists direction text
+  check (direction in ('increase', 'decrease', 'maintain'));
+alter table health_goals add column if not exists baseline_value numeric;
+alter table health_goals add column if not exists deadline timestamptz;
+alter table health_goals add column if not exists updated_at timestamptz;
+alter table health_goals add column if not exists completed_at timestamptz;
+
+alter table health_goals drop constraint if exists health_goals_status_check;
+alter table health_goals add constraint health_goals_status_check
+  check (status in ('active', 'paused', 'completed', 'archived'));
+
+create index if not exists health_goals_user_status_idx
+  on health_goals (user_id, status);
@@ -0,0 +1,11 @@
+-- Anomaly flags scored when a reading is saved or edited, and the normal range a
+-- synced EHR Observation came with. Rows saved before this migration stay unflagged.
+alter table health_data add column if not exists anomaly_flags jsonb not null default '[]';
+alter table health_data add column if not exists anomaly_severity text
+  check (anomaly_severity in ('info', 'warning', 'critical'));
+alter table health_data add column if not exists reference_low double precision;
+alter table health_data add column if not exists reference_high double precision;
+
+create index if not exists health_data_anomalies_idx
+  on health_data (user_id, date)
+  where anomaly_severity is not null and deleted_at is null;
@@ -0,0 +1,4 @@
+-- How many days a week a goal expects its data type to be logged, for weekly
+-- adherence on the dashboard. Existing goals are treated as daily.
+alter table health_goals add column if not exists expected_days_per_week smallint not null default 7
+  check (expected_days_per_week between 1 and 7);
@@ -0,0 +1,13 @@
+-- How far each user's synced Observations have been projected into health_data, by
+-- the observations' synced_at. Keyed by patient too, so relinking starts over.
+create table if not exists ehr_projection_state (
+  user_id          text not null,
+  vendor           text not null,
+  patient_fhir_id  text not null,
+  projected_through timestamptz not null,
+  updated_at       timestamptz not null default now(),
+  primary key (user_id, vendor, patient_fhir_id)
+);
+
+create index if not exists observations_patient_synced_idx
+  on observations (vendor, patient_fhir_id, synced_at);
@@ -0,0 +1,21 @@
+-- Set while one caller spends a connection's refresh token, so concurrent callers wait
+-- for its result instead of spending the same single-use token (see lib/ehr/token-vault.ts).
+alter table ehr_tokens add column if not exists refresh_claimed_at timestamptz;
+
+-- Tokens from a launch with no signed-in user, held until the app claims them with the
+-- one-time code returned by the callback. Only a SHA-256 hash of the code is stored.
+create table if not exists ehr_pending_tokens (
+  code_hash       text primary key,
+  vendor          text not null,
+  patient_fhir_id text not null,
+  fhir_base       text not null,
+  token_endpoint  text not null,
+  patient_name    text,
+  tokens_enc      text not null,
+  created_at      timestamptz not null default now(),
+  expires_at      timestamptz not null,
+  consumed_at     timestamptz
+);
+
+create index if not exists ehr_pending_tokens_expires_at_idx
+  on ehr_pending_tokens (expires_at);
@@ -0,0 +1,5 @@
+-- Running sync jobs touch heartbeat_at as each resource type finishes; the worker only
+-- requeues a running job once its heartbeat has gone stale, not after a fixed run time.
+alter table ehr_sync_jobs add column if not exists heartbeat_at timestamptz;
+
+update ehr_sync_jobs set heartbeat_at = locked_at where status = 'running' and heartbeat_at is null;